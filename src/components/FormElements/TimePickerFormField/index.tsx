@@ -6,19 +6,24 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
-import { Input } from "@/components/ui/input";
-import { clsx } from "clsx";
-import { useFormContext } from "react-hook-form";
+import { useFormContext, FieldValues, Path } from "react-hook-form";
 
-export default function TimePickerFormField({
+interface TimePickerFormFieldProps<T extends FieldValues> {
+  name: Path<T>;
+  label?: string;
+  required?: boolean;
+  className?: string;
+  disabled?: boolean;
+}
+
+export default function TimePickerFormField<T extends FieldValues>({
   name,
-  placeholder,
   label,
   required,
   className,
   disabled = false,
-}) {
-  const { control } = useFormContext();
+}: TimePickerFormFieldProps<T>) {
+  const { control } = useFormContext<T>();
   return (
     <FormField
       name={name}
@@ -32,7 +37,7 @@ export default function TimePickerFormField({
             </FormLabel>
           )}
           <FormControl>
-            <TimePicker disabled={disabled} {...field} />
+            <TimePicker className={className} disabled={disabled} {...field} />
           </FormControl>
           <FormMessage />
         </FormItem>
@@ -26,7 +26,7 @@ import ExcelButton from "./components/ExcelButton";
 
 export const GenericTableComponent = ({
   apiFn, // The API function to call
-  excelApiEndpoint,
+  excelApiEndpoint = "", // Server-side export; the CSV button is used when empty
   queryKey, // Base query key for React Query
   columns, // Array of column configurations
   filters = {}, // Additional filter components to render
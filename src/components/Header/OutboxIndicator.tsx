@@ -0,0 +1,115 @@
+import { useNetworkState } from "@uidotdev/usehooks";
+import { Inbox, RotateCcw, WifiOff, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import useSendQueueStore, {
+  type SendQueueItem,
+} from "@/store/useSendQueueStore";
+
+// Rows queued while offline and not sent yet, or that failed for lack of a
+// connection; the rest of the queue is shown by its send progress
+const isInOutbox = (item: SendQueueItem) =>
+  (item.status === "pending" && Boolean(item.queuedOffline)) ||
+  (item.status === "failed" && item.errorKind === "network");
+
+// Emails queued while offline or waiting on a connection, with retry and
+// discard; hidden while the outbox is empty
+const OutboxIndicator = () => {
+  const { batches, retryFailed, discardItems } = useSendQueueStore();
+  const { online } = useNetworkState();
+
+  const outbox = batches
+    .map((batch) => ({ batch, items: batch.items.filter(isInOutbox) }))
+    .filter(({ items }) => items.length > 0);
+  const count = outbox.reduce((total, { items }) => total + items.length, 0);
+  if (count === 0) return null;
+
+  const handleRetry = () =>
+    outbox.forEach(({ batch }) => retryFailed(batch.id, { kind: "network" }));
+
+  const handleDiscardAll = () =>
+    outbox.forEach(({ batch, items }) =>
+      discardItems(
+        batch.id,
+        items.map((item) => item.id),
+      ),
+    );
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-2">
+          {online ? (
+            <Inbox className="h-4 w-4" />
+          ) : (
+            <WifiOff className="h-4 w-4 text-amber-600" />
+          )}
+          <span className="text-xs">Outbox ({count})</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 space-y-3">
+        <p className="text-xs text-muted-foreground">
+          {online
+            ? "These emails were held while offline and are now going out."
+            : "You're offline. These emails send automatically when the connection returns."}
+        </p>
+        <ul className="max-h-72 overflow-y-auto divide-y rounded-md border">
+          {outbox.flatMap(({ batch, items }) =>
+            items.map((item) => (
+              <li key={item.id} className="flex items-center gap-2 px-3 py-2">
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm">{item.recipient}</p>
+                  <p className="truncate text-xs text-muted-foreground">
+                    {item.status === "failed"
+                      ? "No connection"
+                      : `From ${batch.from}`}{" "}
+                    · {item.subject}
+                  </p>
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  title="Discard"
+                  onClick={() => discardItems(batch.id, [item.id])}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </li>
+            )),
+          )}
+        </ul>
+        <div className="flex justify-end gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="text-red-600"
+            onClick={handleDiscardAll}
+          >
+            Discard all
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            onClick={handleRetry}
+            disabled={
+              !outbox.some(({ items }) =>
+                items.some((item) => item.status === "failed"),
+              )
+            }
+          >
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Retry now
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default OutboxIndicator;
@@ -0,0 +1,190 @@
+import { useEffect, useState } from "react";
+import { Gauge } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import useAccountStore from "@/store/useAccountStore";
+import useSendQuotaStore, {
+  getUsage,
+  type QuotaSettings,
+} from "@/store/useSendQuotaStore";
+
+const SETTING_FIELDS: {
+  key: Exclude<keyof QuotaSettings, "undoSeconds">;
+  label: string;
+}[] = [
+  { key: "dailyLimit", label: "Daily limit (recipients)" },
+  { key: "delaySeconds", label: "Delay between sends (s)" },
+  { key: "jitterSeconds", label: "Random extra delay (s)" },
+];
+
+const UNDO_OPTIONS = [5, 10, 15, 20, 30];
+
+const usageColor = (ratio: number) =>
+  ratio >= 1 ? "bg-red-600" : ratio >= 0.8 ? "bg-amber-500" : "bg-primary";
+
+// Keeps what is typed until blur or Enter, so clearing the field to type a
+// new number is not clamped mid-edit; invalid input reverts to the setting
+const SettingInput = ({
+  id,
+  value,
+  min,
+  onCommit,
+}: {
+  id: string;
+  value: number;
+  min: number;
+  onCommit: (value: number) => void;
+}) => {
+  const [draft, setDraft] = useState(String(value));
+
+  useEffect(() => {
+    setDraft(String(value));
+  }, [value]);
+
+  const commit = () => {
+    const parsed = Number(draft);
+    if (draft.trim() && Number.isFinite(parsed) && parsed >= min) {
+      onCommit(parsed);
+    } else {
+      setDraft(String(value));
+    }
+  };
+
+  return (
+    <Input
+      id={id}
+      type="number"
+      min={min}
+      className="h-8 w-24"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") commit();
+      }}
+    />
+  );
+};
+
+// Sends from the default account in the last 24 hours, with every account,
+// the throttle settings and the undo window in the popover
+const SendQuotaMeter = () => {
+  const { accounts, defaultAccountId } = useAccountStore();
+  const { sends, settings, updateSettings } = useSendQuotaStore();
+  // Old sends leave the window without any store change, so re-render
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  const defaultAccount =
+    accounts.find((account) => account.id === defaultAccountId) || accounts[0];
+  if (!defaultAccount) return null;
+
+  const used = getUsage(sends, defaultAccount.email, now);
+  const ratio = used / settings.dailyLimit;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-2">
+          <Gauge className="h-4 w-4" />
+          <div className="hidden sm:block h-2 w-16 rounded-full bg-secondary overflow-hidden">
+            <div
+              className={`h-full ${usageColor(ratio)}`}
+              style={{ width: `${Math.min(ratio, 1) * 100}%` }}
+            />
+          </div>
+          <span className="text-xs tabular-nums">
+            {used}/{settings.dailyLimit}
+          </span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-4">
+        <div className="space-y-2">
+          <p className="text-sm font-semibold">Sent in the last 24 hours</p>
+          {accounts.map((account) => {
+            const accountUsed = getUsage(sends, account.email, now);
+            return (
+              <div key={account.id} className="space-y-1">
+                <div className="flex justify-between gap-2 text-xs">
+                  <span className="truncate">{account.email}</span>
+                  <span className="tabular-nums">
+                    {accountUsed}/{settings.dailyLimit}
+                  </span>
+                </div>
+                <div className="h-1.5 w-full rounded-full bg-secondary overflow-hidden">
+                  <div
+                    className={`h-full ${usageColor(accountUsed / settings.dailyLimit)}`}
+                    style={{
+                      width: `${Math.min(accountUsed / settings.dailyLimit, 1) * 100}%`,
+                    }}
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        <div className="space-y-2">
+          <p className="text-sm font-semibold">Throttling</p>
+          {SETTING_FIELDS.map(({ key, label }) => (
+            <div key={key} className="flex items-center justify-between gap-2">
+              <Label htmlFor={key} className="text-xs font-normal">
+                {label}
+              </Label>
+              <SettingInput
+                id={key}
+                value={settings[key]}
+                min={key === "dailyLimit" ? 1 : 0}
+                onCommit={(value) => updateSettings({ [key]: value })}
+              />
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">
+            Cc and Bcc addresses count towards the limit. The queue pauses
+            before an account would go over it.
+          </p>
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor="undoSeconds" className="text-xs font-normal">
+            Undo send window
+          </Label>
+          <Select
+            value={String(settings.undoSeconds)}
+            onValueChange={(value) =>
+              updateSettings({ undoSeconds: Number(value) })
+            }
+          >
+            <SelectTrigger id="undoSeconds" className="h-8 w-24">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {UNDO_OPTIONS.map((seconds) => (
+                <SelectItem key={seconds} value={String(seconds)}>
+                  {seconds} s
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SendQuotaMeter;
@@ -11,12 +11,14 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { useQueryClient } from "@tanstack/react-query";
 import useAuthStore from "@/store/useAuthStore";
+import useAccountStore from "@/store/useAccountStore";
 import routePath from "@/router/routePath";
 import { useNavigate } from "react-router";
 
 const UserProfileDropdown = () => {
   const navigate = useNavigate();
   const { clearToken, data } = useAuthStore();
+  const lock = useAccountStore((state) => state.lock);
   const queryClient = useQueryClient();
 
   const email = data?.email || "user@example.com";
@@ -44,6 +46,29 @@ const UserProfileDropdown = () => {
           </div>
         </DropdownMenuLabel>
         <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => navigate(routePath.home)}>
+          Compose
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => navigate(routePath.scheduled)}>
+          Scheduled
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => navigate(routePath.sentHistory)}>
+          Sent History
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => navigate(routePath.sequences)}>
+          Sequences
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => navigate(routePath.applications)}>
+          Applications
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => navigate(routePath.abTests)}>
+          A/B Tests
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => navigate(routePath.accounts)}>
+          Accounts
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={lock}>Lock</DropdownMenuItem>
         {/* <DropdownMenuItem onClick={() => navigate(routePath.profile)}> */}
         {/*   Profile */}
         {/* </DropdownMenuItem> */}
@@ -51,6 +76,7 @@ const UserProfileDropdown = () => {
           className="text-red-500"
           onClick={() => {
             queryClient.removeQueries();
+            lock();
             clearToken();
           }}
         >
@@ -5,10 +5,14 @@ import RouteSearch from "./RouteSearch";
 import { ModeToggle } from "../Theme/mode-toggle";
 import useAuthStore from "@/store/useAuthStore";
 import UserProfileDropdown from "./UserProfileDropDown";
+import SendQuotaMeter from "./SendQuotaMeter";
+import OutboxIndicator from "./OutboxIndicator";
 function AuthenticatedNavLinks() {
   return (
     <div className="flex items-center gap-x-2 md:gap-x-4">
       {/* <RouteSearch /> */}
+      <OutboxIndicator />
+      <SendQuotaMeter />
       <UserProfileDropdown />
     </div>
   );
@@ -4,10 +4,9 @@ import Quill from "quill";
 import ReactQuill from "react-quill-new";
 import ImageResize from "quill-image-resize-module-react";
 import { cn } from "@/lib/utils";
+import { toast } from "sonner";
 import "./quill.custom.css";
-import endPoint from "@/services/endPoint";
-import { BASE_URL } from "@/configs/axios";
-import { UploadImageAPI } from "@/components/uploaders/ImageCrop/api";
+import { UploadImageAPI } from "@/services/api";
 
 // Register modules
 function registerQuillModules() {
@@ -27,16 +26,36 @@ function registerQuillModules() {
   Quill.register("modules/imageResize", imageResize);
 }
 
-const QuillEditor = ({ placeholder, className, value, onChange }) => {
+interface QuillEditorProps {
+  placeholder?: string;
+  className?: string;
+  value: string;
+  onChange: (value: string) => void;
+  readOnly?: boolean;
+  /**
+   * Uploads an inserted image and resolves with its URL.
+   * Defaults to the server's image host.
+   */
+  onImageUpload?: (file: File) => Promise<string>;
+}
+
+const QuillEditor = ({
+  placeholder,
+  className,
+  value,
+  onChange,
+  readOnly = false,
+  onImageUpload = UploadImageAPI,
+}: QuillEditorProps) => {
   const [isMounted, setIsMounted] = useState(false);
-  const quillRef = useRef(null);
+  const quillRef = useRef<ReactQuill>(null);
 
   useEffect(() => {
     registerQuillModules();
     setIsMounted(true);
   }, []);
 
-  const insertImage = (quill, imageUrl) => {
+  const insertImage = (quill: Quill, imageUrl: string) => {
     const range = quill.getSelection(true);
     quill.insertEmbed(range.index, "image", imageUrl, "user");
     quill.setSelection(range.index + 1);
@@ -56,7 +75,7 @@ const QuillEditor = ({ placeholder, className, value, onChange }) => {
           [{ align: [] }],
         ],
         handlers: {
-          image: function () {
+          image: function (this: { quill: Quill }) {
             const input = document.createElement("input");
             input.setAttribute("type", "file");
             input.setAttribute("accept", "image/*");
@@ -65,14 +84,11 @@ const QuillEditor = ({ placeholder, className, value, onChange }) => {
               const file = input.files?.[0];
               if (file) {
                 try {
-                  const { data } = await UploadImageAPI(
-                    `${BASE_URL}${endPoint.sendBannerImage}`,
-                    file,
-                  );
-                  const editor = this.quill;
-                  insertImage(editor, data);
+                  const imageUrl = await onImageUpload(file);
+                  insertImage(this.quill, imageUrl);
                 } catch (err) {
                   console.error(err);
+                  toast.error("The image could not be uploaded");
                 }
               }
             };
@@ -116,6 +132,7 @@ const QuillEditor = ({ placeholder, className, value, onChange }) => {
           className={cn("w-full", className)}
           value={value}
           onChange={onChange}
+          readOnly={readOnly}
         />
       )}
     </div>
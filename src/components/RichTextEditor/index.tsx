@@ -9,13 +9,23 @@ import {
 } from "@/components/ui/form";
 import QuillEditor from "./components/QuillEditor"; // Import the separated QuillEditor
 
+interface RichTextEditorProps {
+  name: string;
+  placeholder?: string;
+  className?: string;
+  label?: string;
+  description?: React.ReactNode;
+  disabled?: boolean;
+}
+
 const RichTextEditor = ({
   name,
   placeholder,
   className,
   label,
   description,
-}) => {
+  disabled,
+}: RichTextEditorProps) => {
   const { control } = useFormContext();
 
   return (
@@ -24,13 +34,14 @@ const RichTextEditor = ({
       name={name}
       render={({ field }) => (
         <FormItem>
-          <FormLabel>{label}</FormLabel>
+          {label && <FormLabel>{label}</FormLabel>}
           <FormControl>
             <QuillEditor
               placeholder={placeholder}
               className={className}
               value={field.value}
               onChange={field.onChange}
+              readOnly={disabled}
             />
           </FormControl>
           {description && <FormDescription>{description}</FormDescription>}
@@ -5,7 +5,7 @@ import { handleKeyDown } from "@/utils/functions/searchBarSearch";
 import { useDebounce } from "@/utils/functions/useDebounce";
 import clsx from "clsx";
 
-const SearchBar = ({ placeholder = "Search... (Ctrl+/)", className }) => {
+const SearchBar = ({ placeholder = "Search... (Ctrl+/)", className = "" }) => {
   const [searchParams, setSearchParams] = useSearchParams();
   const filter = searchParams.get("filter");
   const [searchValue, setSearchValue] = useState(filter || "");
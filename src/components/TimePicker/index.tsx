@@ -0,0 +1,12 @@
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+
+// Native time input; the value is an "HH:mm" string
+const TimePicker = ({
+  className,
+  ...props
+}: Omit<React.ComponentProps<typeof Input>, "type">) => (
+  <Input type="time" className={cn("w-[140px]", className)} {...props} />
+);
+
+export default TimePicker;
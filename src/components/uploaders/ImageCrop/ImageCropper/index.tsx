@@ -48,6 +48,7 @@ const ImageCropper = ({
   return (
     <div className="absolute inset-0 z-10 flex items-center justify-center flex-col">
       <button
+        type="button"
         onClick={handleClearImage}
         className="absolute left-2 top-2 z-20 w-8 h-8 rounded-sm bg-red-600 text-white font-bold flex items-center justify-center hover:bg-red-700 shadow"
         title="Clear image"
@@ -73,6 +73,7 @@ const UploadImageButton = ({
 
   return (
     <button
+      type="button"
       onClick={handleUpload}
       disabled={!file || status === "loading"}
       title="Upload Image"
@@ -1,5 +1,6 @@
 import endPoint from "@/services/endPoint";
 import axios from "axios";
+import { clearSession } from "@/utils/functions/authStorage";
 export const BASE_URL = import.meta.env.VITE_API_URL;
 // Create axios instance
 const api = axios.create({
@@ -35,7 +36,7 @@ const refreshToken = async () => {
         return data.accessToken;
       } catch (error) {
         console.error(error);
-        localStorage.clear();
+        clearSession();
         window.location.reload();
         return null;
       } finally {
@@ -72,8 +73,9 @@ api.interceptors.response.use(
       }
     }
 
-    if (error.response.status === 403) {
-      localStorage.clear();
+    // A rejected login is reported on the form, not treated as a lost session
+    if (error.response.status === 403 && !isLoginOrRefresh) {
+      clearSession();
       window.location.reload();
     }
 
@@ -1,6 +1,7 @@
 import { useEffect } from "react";
 import { useIdle } from "@uidotdev/usehooks";
 import { toast } from "sonner";
+import { clearSession } from "@/utils/functions/authStorage";
 
 const useIdleLogout = (logoutTime = 30 * 60 * 1000) => {
   const idle = useIdle(logoutTime);
@@ -9,7 +10,7 @@ const useIdleLogout = (logoutTime = 30 * 60 * 1000) => {
     if (idle) {
       toast.warning("Idle Logout");
       const timeoutId = setTimeout(() => {
-        localStorage.clear();
+        clearSession();
         window.location.reload();
       }, 2 * 1000);
 
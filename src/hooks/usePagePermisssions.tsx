@@ -27,7 +27,7 @@ export const useMenuConfig = () => {
   const { data } = useAuthStore();
   return useQuery({
     queryKey: ["menuConfig"],
-    queryFn: () => GetPermissionsAPI({ RoleName: data.roleName }),
+    queryFn: () => GetPermissionsAPI({ RoleName: data?.roleName }),
     staleTime: 5 * 60 * 1000, // Consider data fresh for 5 minutes
     cacheTime: 30 * 60 * 1000, // Keep in cache for 30 minutes
   });
@@ -0,0 +1,60 @@
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { claimDueScheduledEmails } from "@/services/scheduledEmailsMock";
+import useSendQueueStore from "@/store/useSendQueueStore";
+import { queueMessages } from "@/utils/functions/renderMessages";
+
+/**
+ * Plays the backend's part for locally scheduled emails: every `interval` ms,
+ * due jobs are moved into the send queue. Only needed while `mockScheduler`
+ * is on; a real backend sends them itself. When the stored jobs cannot be
+ * read or claimed the user is told once, since those jobs will not go out.
+ */
+const useScheduledEmailRunner = ({ enabled = true, interval = 30000 } = {}) => {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!enabled) return;
+    let reported = "";
+
+    const run = () => {
+      let due;
+      try {
+        due = claimDueScheduledEmails();
+        reported = "";
+      } catch (error) {
+        const { message } = error as Error;
+        if (message !== reported) {
+          toast.error(message, {
+            description:
+              "Scheduled emails will not be sent until this is fixed.",
+          });
+          reported = message;
+        }
+        return;
+      }
+      if (due.length === 0) return;
+
+      const { enqueue } = useSendQueueStore.getState();
+      due.forEach((job) =>
+        enqueue({
+          from: job.from,
+          attachmentIds: job.attachmentIds,
+          cc: job.cc ?? [],
+          bcc: job.bcc ?? [],
+          replyTo: job.replyTo ?? [],
+          contents: [{ subject: job.subject, body: job.body }],
+          items: queueMessages(job),
+        }),
+      );
+      queryClient.invalidateQueries({ queryKey: ["GetScheduledEmailsAPI"] });
+    };
+
+    run();
+    const timer = setInterval(run, interval);
+    return () => clearInterval(timer);
+  }, [enabled, interval, queryClient]);
+};
+
+export default useScheduledEmailRunner;
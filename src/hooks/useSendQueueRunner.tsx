@@ -0,0 +1,262 @@
+import { useEffect, useState } from "react";
+import { useNetworkState } from "@uidotdev/usehooks";
+import { SendEmailAPI } from "@/services/api";
+import useAccountStore from "@/store/useAccountStore";
+import useSendQueueStore, {
+  getItemAttachmentIds,
+  hasCopiesOut,
+  type SendBatch,
+  type SendQueueItem,
+} from "@/store/useSendQueueStore";
+import { buildEmailFormData } from "@/utils/functions/buildEmailFormData";
+import { renderBody } from "@/utils/functions/renderMessages";
+import { parseSendError } from "@/utils/functions/sendErrors";
+import useApplicationStore from "@/store/useApplicationStore";
+import useAttachmentStore from "@/store/useAttachmentStore";
+import useSentHistoryStore from "@/store/useSentHistoryStore";
+import useSequenceStore from "@/store/useSequenceStore";
+import useSendQuotaStore, {
+  getMessageCost,
+  getResumeAt,
+  getThrottleDelay,
+} from "@/store/useSendQuotaStore";
+
+// Bodies are kept once per batch and rendered for each recipient on the way out
+const renderItem = (batch: SendBatch, item: SendQueueItem) =>
+  renderBody(batch.contents[item.content ?? 0].body, item.mergeData);
+
+const sendItem = async (batch: SendBatch, item: SendQueueItem) => {
+  const password = useAccountStore.getState().getPassword(batch.from);
+  const attachments = await useAttachmentStore
+    .getState()
+    .getFiles(getItemAttachmentIds(batch, item));
+
+  await SendEmailAPI(
+    buildEmailFormData({
+      email: batch.from,
+      password,
+      recipients: [item.recipient],
+      cc: item.withCopies ? batch.cc : [],
+      bcc: item.withCopies ? batch.bcc : [],
+      replyTo: batch.replyTo,
+      subject: item.subject,
+      ...renderItem(batch, item),
+      attachments,
+    }),
+  );
+};
+
+// Keeps what was sent (or attempted) for the history page
+const recordResult = (
+  batch: SendBatch,
+  item: SendQueueItem,
+  result: Pick<SendQueueItem, "error"> & { status: "sent" | "failed" },
+) => {
+  const { attachments } = useAttachmentStore.getState();
+  const attachmentIds = getItemAttachmentIds(batch, item);
+  const { contacts, sequences } = useSequenceStore.getState();
+  const contact = contacts.find(({ id }) => id === item.sequenceContactId);
+  const sequence = sequences.find(({ id }) => id === contact?.sequenceId);
+  return useSentHistoryStore.getState().record({
+    from: batch.from,
+    recipient: item.recipient,
+    cc: item.withCopies ? batch.cc : [],
+    bcc: item.withCopies ? batch.bcc : [],
+    subject: item.subject,
+    ...renderItem(batch, item),
+    attachmentNames: attachments
+      .filter((attachment) => attachmentIds.includes(attachment.id))
+      .map((attachment) => attachment.name),
+    sequence: sequence && {
+      name: sequence.name,
+      step: batch.sequenceStep ?? 0,
+    },
+    variant: item.variant,
+    status: result.status,
+    error: result.error,
+  });
+};
+
+// Settles a row: its status, the history entry, the applications it was
+// addressed to and any sequence progress
+const finishItem = (
+  batch: SendBatch,
+  item: SendQueueItem,
+  result: Pick<SendQueueItem, "error" | "errorKind" | "smtpCode"> & {
+    status: "sent" | "failed";
+  },
+) => {
+  useSendQueueStore.getState().updateItem(batch.id, item.id, result);
+  const messageId = recordResult(batch, item, result);
+  if (result.status === "sent") {
+    useApplicationStore.getState().linkSentMessage(item.recipient, messageId);
+  }
+  if (!item.sequenceContactId) return;
+  const { recordStepSent, recordStepFailed } = useSequenceStore.getState();
+  if (result.status === "sent") {
+    recordStepSent(item.sequenceContactId);
+  } else {
+    recordStepFailed(item.sequenceContactId, result.error ?? "");
+  }
+};
+
+// A queued follow-up is dropped if its contact replied or was paused meanwhile
+const isStoppedFollowUp = (batch: SendBatch, item: SendQueueItem) => {
+  if (!item.sequenceContactId || !batch.sequenceStep) return false;
+  const contact = useSequenceStore
+    .getState()
+    .contacts.find(({ id }) => id === item.sequenceContactId);
+  return contact?.status !== "active";
+};
+
+// Earliest time each account may start its next send, for throttling
+const nextSendAt = new Map<string, number>();
+
+/**
+ * Works through the persisted send queue, one request per recipient with at
+ * most `concurrency` requests in flight. Sends from one account are spaced by
+ * the throttle settings, and an account pauses before it would go over its
+ * daily quota until enough old sends leave the window. A batch is not
+ * started before its `holdUntil`, which leaves time to undo it. While the browser is
+ * offline the queue doubles as an outbox: nothing is attempted, and it is
+ * flushed, network failures included, once the connection returns. Mounted
+ * once for the private routes so a run resumes after a reload.
+ */
+const useSendQueueRunner = ({ enabled = true, concurrency = 2 } = {}) => {
+  const batches = useSendQueueStore((state) => state.batches);
+  const settings = useSendQuotaStore((state) => state.settings);
+  const { online } = useNetworkState();
+  // Bumped by a timer to re-check rows that were waiting on throttle or quota
+  const [wakeUp, setWakeUp] = useState(0);
+
+  // Coming back online retries whatever failed for lack of a connection
+  useEffect(() => {
+    if (!enabled || !online) return;
+    const { batches, retryFailed } = useSendQueueStore.getState();
+    batches
+      .filter((batch) =>
+        batch.items.some(
+          (item) => item.status === "failed" && item.errorKind === "network",
+        ),
+      )
+      .forEach((batch) => retryFailed(batch.id, { kind: "network" }));
+  }, [enabled, online]);
+
+  useEffect(() => {
+    if (!enabled || !online) return;
+
+    // Read fresh state so a re-run never picks up a row twice
+    const { batches, updateItem } = useSendQueueStore.getState();
+    const { sends, recordSend } = useSendQuotaStore.getState();
+    const queued = batches.flatMap((batch) =>
+      batch.items.map((item) => ({ batch, item })),
+    );
+    const sending = queued.filter(({ item }) => item.status === "sending");
+    let inFlight = sending.length;
+    // Quota held by requests that have not finished yet
+    const reserved = new Map<string, number>();
+    sending.forEach(({ batch, item }) => {
+      const from = batch.from.toLowerCase();
+      const cost = item.withCopies ? getMessageCost(batch) : 1;
+      reserved.set(from, (reserved.get(from) ?? 0) + cost);
+    });
+    let wait = Infinity;
+
+    for (const { batch, item } of queued) {
+      if (inFlight >= concurrency) break;
+      if (item.status !== "pending") continue;
+
+      // Still inside the undo window
+      const heldFor = batch.holdUntil
+        ? new Date(batch.holdUntil).getTime() - Date.now()
+        : 0;
+      if (heldFor > 0) {
+        wait = Math.min(wait, heldFor);
+        continue;
+      }
+
+      if (isStoppedFollowUp(batch, item)) {
+        updateItem(batch.id, item.id, {
+          status: "failed",
+          error: "Skipped: the contact replied or was paused",
+        });
+        if (item.sequenceContactId) {
+          useSequenceStore.getState().recordStepSkipped(item.sequenceContactId);
+        }
+        continue;
+      }
+
+      const from = batch.from.toLowerCase();
+      // The first row to go out takes the Cc and Bcc; read fresh state, as
+      // an earlier row of this pass may have taken them
+      const current = useSendQueueStore
+        .getState()
+        .batches.find(({ id }) => id === batch.id);
+      const withCopies = !current || !hasCopiesOut(current);
+      const cost = withCopies ? getMessageCost(batch) : 1;
+      const now = Date.now();
+      if (cost > settings.dailyLimit) {
+        finishItem(batch, item, {
+          status: "failed",
+          error: `More recipients than the daily limit of ${settings.dailyLimit}`,
+          errorKind: "quota",
+        });
+        continue;
+      }
+      const resumeAt = getResumeAt(
+        sends,
+        from,
+        cost + (reserved.get(from) ?? 0),
+        settings.dailyLimit,
+        now,
+      );
+      if (resumeAt) {
+        wait = Math.min(wait, resumeAt.getTime() - now);
+        continue;
+      }
+      const allowedAt = nextSendAt.get(from) ?? 0;
+      if (allowedAt > now) {
+        wait = Math.min(wait, allowedAt - now);
+        continue;
+      }
+
+      nextSendAt.set(from, now + getThrottleDelay(settings));
+      reserved.set(from, (reserved.get(from) ?? 0) + cost);
+      inFlight++;
+      const outgoing = { ...item, withCopies };
+      updateItem(batch.id, item.id, {
+        status: "sending",
+        error: undefined,
+        withCopies,
+      });
+      sendItem(batch, outgoing)
+        .then(() => {
+          recordSend(batch.from, cost);
+          finishItem(batch, outgoing, { status: "sent" });
+        })
+        .catch((error) => {
+          const { kind, message, smtpCode } = parseSendError(error);
+          // The connection dropped mid-send, so keep the row in the outbox
+          if (kind === "network" && !navigator.onLine) {
+            updateItem(batch.id, item.id, {
+              status: "pending",
+              queuedOffline: true,
+            });
+            return;
+          }
+          finishItem(batch, outgoing, {
+            status: "failed",
+            error: message,
+            errorKind: kind,
+            smtpCode,
+          });
+        });
+    }
+
+    if (wait === Infinity) return;
+    const timeoutId = setTimeout(() => setWakeUp((count) => count + 1), wait);
+    return () => clearTimeout(timeoutId);
+  }, [batches, settings, enabled, online, concurrency, wakeUp]);
+};
+
+export default useSendQueueRunner;
@@ -0,0 +1,107 @@
+import { useEffect } from "react";
+import useAttachmentStore from "@/store/useAttachmentStore";
+import useSendQueueStore, {
+  type SendQueueItem,
+} from "@/store/useSendQueueStore";
+import useSequenceStore from "@/store/useSequenceStore";
+import useSignatureStore from "@/store/useSignatureStore";
+import useTemplateStore from "@/store/useTemplateStore";
+import { toEmailHtml } from "@/utils/functions/emailHtml";
+import {
+  extractMergeFields,
+  getMissingFields,
+  getRecipientMergeData,
+} from "@/utils/functions/mergeFields";
+import { queueMessages } from "@/utils/functions/renderMessages";
+import { appendSignature } from "@/utils/functions/signatures";
+
+/**
+ * Every `interval` ms, queues the next follow-up for sequence contacts whose
+ * delay has passed, signed with the sending account's signature. Paused and
+ * replied contacts are never picked up, and a follow-up missing merge data
+ * fails its contact instead of going out with raw placeholders.
+ */
+const useSequenceRunner = ({ enabled = true, interval = 60000 } = {}) => {
+  useEffect(() => {
+    if (!enabled) return;
+
+    const run = () => {
+      const { sequences, claimDueContacts, recordStepFailed } =
+        useSequenceStore.getState();
+      const due = claimDueContacts();
+      if (due.length === 0) return;
+
+      const { templates } = useTemplateStore.getState();
+      const { attachments } = useAttachmentStore.getState();
+      const { batches, enqueue, retryFailed } = useSendQueueStore.getState();
+      const { getSignature } = useSignatureStore.getState();
+      due.forEach((contact) => {
+        // A failed initial email is retried from the send queue, which holds
+        // its content
+        if (contact.stepsSent === 0) {
+          const isInitial = (item: SendQueueItem) =>
+            item.sequenceContactId === contact.id && item.status === "failed";
+          const batch = batches.find(({ items }) => items.some(isInitial));
+          const item = batch?.items.find(isInitial);
+          if (!batch || !item) {
+            recordStepFailed(
+              contact.id,
+              "The initial email is no longer in the send queue",
+            );
+            return;
+          }
+          retryFailed(batch.id, { itemIds: [item.id] });
+          return;
+        }
+
+        const sequence = sequences.find(({ id }) => id === contact.sequenceId);
+        const step = sequence?.steps[contact.stepsSent - 1];
+        const template = templates.find(({ id }) => id === step?.templateId);
+        if (!template) {
+          recordStepFailed(contact.id, "The follow-up template was deleted");
+          return;
+        }
+        // The template may have gained placeholders since enrollment
+        const missing = getMissingFields(
+          extractMergeFields(template.subject, template.body),
+          getRecipientMergeData(contact.recipient, contact.recipientData),
+        );
+        if (missing.length > 0) {
+          recordStepFailed(contact.id, `Missing ${missing.join(", ")}`);
+          return;
+        }
+
+        enqueue({
+          from: contact.from,
+          attachmentIds: template.attachmentIds.filter((id) =>
+            attachments.some((attachment) => attachment.id === id),
+          ),
+          cc: [],
+          bcc: [],
+          replyTo: [],
+          sequenceStep: contact.stepsSent,
+          contents: [
+            {
+              subject: template.subject,
+              body: appendSignature(
+                toEmailHtml(template.body),
+                getSignature(contact.from),
+              ),
+            },
+          ],
+          items: queueMessages({
+            recipients: [contact.recipient],
+            recipientData: { [contact.recipient]: contact.recipientData },
+            subject: template.subject,
+          }).map((message) => ({ ...message, sequenceContactId: contact.id })),
+        });
+      });
+    };
+
+    run();
+    const timer = setInterval(run, interval);
+    return () => clearInterval(timer);
+  }, [enabled, interval]);
+};
+
+export default useSequenceRunner;
@@ -22,9 +22,37 @@ import { useForm } from "react-hook-form";
 import { useNavigate } from "react-router";
 import { Label } from "@/components/ui/label";
 import useAuthStore from "@/store/useAuthStore";
+import useAccountStore from "@/store/useAccountStore";
 import { isTesting } from "@/utils/constants";
+
+type LoginError = Error & {
+  response?: { status: number; data?: { code?: string; message?: string } };
+};
+
+// SMTP verification failures, mapped to the field the user has to fix
+const LOGIN_ERRORS: Record<
+  string,
+  { field: "usernameOrEmail" | "password"; message: string }
+> = {
+  AUTH_FAILED: {
+    field: "password",
+    message: "Gmail rejected this address and app password",
+  },
+  TWO_FACTOR_REQUIRED: {
+    field: "password",
+    message:
+      "Gmail needs an app password for this account. Turn on 2-Step Verification, then create one under Security → App Passwords.",
+  },
+  APP_PASSWORD_REVOKED: {
+    field: "password",
+    message:
+      "This app password has been revoked. Create a new one under Security → App Passwords.",
+  },
+};
+
 const LoginPage = () => {
   const { setToken } = useAuthStore();
+  const { hasPassphrase, isUnlocked, unlock, addAccount } = useAccountStore();
   const queryClient = useQueryClient();
   const navigate = useNavigate();
   const [showPassword, setShowPassword] = useState(false);
@@ -32,18 +60,21 @@ const LoginPage = () => {
   const defaultValues = {
     usernameOrEmail: isTesting ? "nevilkrishna@gmail.com" : "",
     password: isTesting ? "" : "",
+    passphrase: "",
   };
   const {
     register,
     handleSubmit,
-    formState: { errors },
+    formState: { errors, isSubmitting },
     setError,
   } = useForm({
     defaultValues,
   });
   const loginMutation = useMutation({
     mutationFn: LoginAPI,
-    onSuccess: (data) => {
+    onSuccess: (data, { email, password }) => {
+      // The app password is kept with the sender account, not the session
+      addAccount({ email, password });
       setToken({
         accessToken: data.accessToken,
         refreshToken: data.refreshToken,
@@ -54,29 +85,37 @@ const LoginPage = () => {
       });
       navigate(routePath.home);
     },
-    onError: ({ response }) => {
+    onError: ({ response }: LoginError) => {
+      const known = LOGIN_ERRORS[response?.data?.code ?? ""];
+      if (known) {
+        setError(known.field, { type: "server", message: known.message });
+        return;
+      }
       setError("root.serverError", {
-        type: response.status,
-        message: response.data.message,
+        type: String(response?.status ?? "network"),
+        message:
+          response?.data?.message ??
+          "Could not reach the server. Check your connection and try again.",
       });
     },
   });
-  const onSubmit = ({ usernameOrEmail, password }) => {
-    // queryClient.invalidateQueries();
-    // loginMutation.mutate({
-    //   username: usernameOrEmail,
-    //   password,
-    // });
-
-    setToken({
-      accessToken: "xwa234asdfasdf234",
-      refreshToken: "dsdfataasdf.2efresdfshTodafkeadsfn",
-      data: {
-        email: usernameOrEmail,
-        password: password,
-      },
-    });
-    navigate(routePath.home);
+  const onSubmit = async ({
+    usernameOrEmail,
+    password,
+    passphrase,
+  }: typeof defaultValues) => {
+    // The verified app password is saved to the encrypted account store, so
+    // it has to be open first
+    if (!isUnlocked) {
+      try {
+        await unlock(passphrase);
+      } catch (error) {
+        setError("passphrase", { message: (error as Error).message });
+        return;
+      }
+    }
+    queryClient.invalidateQueries();
+    loginMutation.mutate({ email: usernameOrEmail, password });
   };
   return (
     <Card className="m-auto my-40 w-[350px]">
@@ -144,11 +183,39 @@ const LoginPage = () => {
                 )}
               </div>
             </div>
+            {!isUnlocked && (
+              <div className="flex flex-col space-y-1.5">
+                <Label htmlFor="passphrase">
+                  {hasPassphrase ? "Unlock Passphrase" : "Choose a Passphrase"}
+                </Label>
+                <Input
+                  id="passphrase"
+                  type="password"
+                  autoComplete={
+                    hasPassphrase ? "current-password" : "new-password"
+                  }
+                  {...register("passphrase", {
+                    required: "Passphrase is required",
+                    minLength: hasPassphrase
+                      ? undefined
+                      : { value: 8, message: "Use at least 8 characters" },
+                  })}
+                />
+                <span className="text-xs text-muted-foreground">
+                  Encrypts your saved app passwords in this browser.
+                </span>
+                {errors.passphrase && (
+                  <span className="form-error">
+                    {errors.passphrase.message}
+                  </span>
+                )}
+              </div>
+            )}
           </div>
         </CardContent>
         <CardFooter>
           <Button className="w-full mt-4" type="submit">
-            {loginMutation.isPending ? (
+            {loginMutation.isPending || isSubmitting ? (
               <LoaderIcon className="animate-spin" />
             ) : (
               "Login"
@@ -0,0 +1,156 @@
+import { useForm } from "react-hook-form";
+import { LoaderIcon, Lock } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import useAccountStore from "@/store/useAccountStore";
+import useAuthStore from "@/store/useAuthStore";
+
+interface UnlockValues {
+  passphrase: string;
+  confirmPassphrase: string;
+}
+
+// Shown in place of the private pages until the account store is unlocked
+const UnlockPage = () => {
+  const { hasPassphrase, unlock, resetVault } = useAccountStore();
+  const clearToken = useAuthStore((state) => state.clearToken);
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+    setError,
+  } = useForm<UnlockValues>({
+    defaultValues: { passphrase: "", confirmPassphrase: "" },
+  });
+
+  const onSubmit = async ({ passphrase, confirmPassphrase }: UnlockValues) => {
+    if (!hasPassphrase && passphrase !== confirmPassphrase) {
+      setError("confirmPassphrase", { message: "Passphrases do not match" });
+      return;
+    }
+    try {
+      await unlock(passphrase);
+    } catch (error) {
+      setError("passphrase", { message: (error as Error).message });
+    }
+  };
+
+  // Without the passphrase the saved credentials cannot be recovered
+  const handleForgot = () => {
+    resetVault();
+    clearToken();
+  };
+
+  return (
+    <Card className="m-auto my-40 w-[350px]">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Lock className="h-5 w-5" />
+          {hasPassphrase ? "Locked" : "Protect Your Accounts"}
+        </CardTitle>
+        <CardDescription>
+          {hasPassphrase
+            ? "Enter your passphrase to use your saved accounts."
+            : "Choose a passphrase to encrypt your saved app passwords in this browser."}
+        </CardDescription>
+      </CardHeader>
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <CardContent>
+          <div className="grid w-full items-center gap-4">
+            <div className="flex flex-col space-y-1.5">
+              <Label htmlFor="passphrase">Passphrase</Label>
+              <Input
+                id="passphrase"
+                type="password"
+                autoFocus
+                autoComplete={
+                  hasPassphrase ? "current-password" : "new-password"
+                }
+                {...register("passphrase", {
+                  required: "Passphrase is required",
+                  minLength: hasPassphrase
+                    ? undefined
+                    : { value: 8, message: "Use at least 8 characters" },
+                })}
+              />
+              {errors.passphrase && (
+                <span className="form-error">{errors.passphrase.message}</span>
+              )}
+            </div>
+            {!hasPassphrase && (
+              <div className="flex flex-col space-y-1.5">
+                <Label htmlFor="confirmPassphrase">Confirm Passphrase</Label>
+                <Input
+                  id="confirmPassphrase"
+                  type="password"
+                  autoComplete="new-password"
+                  {...register("confirmPassphrase")}
+                />
+                {errors.confirmPassphrase && (
+                  <span className="form-error">
+                    {errors.confirmPassphrase.message}
+                  </span>
+                )}
+              </div>
+            )}
+          </div>
+        </CardContent>
+        <CardFooter className="flex flex-col gap-2">
+          <Button className="w-full mt-4" type="submit" disabled={isSubmitting}>
+            {isSubmitting ? <LoaderIcon className="animate-spin" /> : "Unlock"}
+          </Button>
+          {hasPassphrase && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button type="button" variant="link" size="sm">
+                  Forgot passphrase?
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Reset saved accounts?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Your saved app passwords cannot be decrypted without the
+                    passphrase. Resetting deletes them and logs you out; log in
+                    again to choose a new passphrase.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    className="bg-red-500 text-white duration-300 hover:bg-red-600"
+                    onClick={handleForgot}
+                  >
+                    Reset
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+        </CardFooter>
+      </form>
+    </Card>
+  );
+};
+
+export default UnlockPage;
@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { ChevronDown, Trophy } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import useSentHistoryStore from "@/store/useSentHistoryStore";
+import type { TestResult, VariantResult } from "@/utils/functions/abTest";
+
+const percent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+// The variant with the best reply rate, then open rate; none while tied or
+// before any outcome is recorded
+const findLeader = (variants: VariantResult[]) => {
+  const score = (result: VariantResult) => [result.replyRate, result.openRate];
+  const ranked = [...variants].sort((a, b) => {
+    const [replyA, openA] = score(a);
+    const [replyB, openB] = score(b);
+    return replyB - replyA || openB - openA;
+  });
+  const [best, next] = ranked;
+  if (!best || (best.replyRate === 0 && best.openRate === 0)) return null;
+  if (
+    next &&
+    next.replyRate === best.replyRate &&
+    next.openRate === best.openRate
+  ) {
+    return null;
+  }
+  return best.label;
+};
+
+// One test's per-variant open and reply rates, with the recipients listed
+// underneath so outcomes can be ticked off as they come in
+const TestResultsCard = ({ test }: { test: TestResult }) => {
+  const [showRecipients, setShowRecipients] = useState(false);
+  const setOutcome = useSentHistoryStore((state) => state.setOutcome);
+  const leader = findLeader(test.variants);
+  const sent = test.variants.reduce((total, result) => total + result.sent, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          {test.testName}
+          <span className="text-xs font-normal text-muted-foreground">
+            {sent} sent · started {new Date(test.startedAt).toLocaleString()}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="rounded-md border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Variant</TableHead>
+                <TableHead>Subject</TableHead>
+                <TableHead className="text-right">Sent</TableHead>
+                <TableHead className="text-right">Opened</TableHead>
+                <TableHead className="text-right">Replied</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {test.variants.map((result) => (
+                <TableRow key={result.label}>
+                  <TableCell className="font-medium">
+                    <span className="flex items-center gap-2">
+                      {result.label}
+                      {result.label === leader && (
+                        <Badge variant="secondary">
+                          <Trophy className="h-3 w-3" />
+                          Leading
+                        </Badge>
+                      )}
+                    </span>
+                  </TableCell>
+                  <TableCell className="max-w-xs truncate">
+                    {result.subject}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {result.sent}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {result.opened} ({percent(result.openRate)})
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {result.replied} ({percent(result.replyRate)})
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <Collapsible open={showRecipients} onOpenChange={setShowRecipients}>
+          <CollapsibleTrigger asChild>
+            <Button type="button" variant="ghost" size="sm">
+              <ChevronDown
+                className={`h-4 w-4 mr-2 transition-transform ${showRecipients ? "rotate-180" : ""}`}
+              />
+              Record opens and replies
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent>
+            <div className="mt-2 max-h-96 rounded-md border overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Recipient</TableHead>
+                    <TableHead>Variant</TableHead>
+                    <TableHead>Sent</TableHead>
+                    <TableHead className="text-center">Opened</TableHead>
+                    <TableHead className="text-center">Replied</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {test.messages.map((message) => (
+                    <TableRow key={message.id}>
+                      <TableCell className="text-xs font-medium">
+                        {message.recipient}
+                      </TableCell>
+                      <TableCell>{message.variant?.label}</TableCell>
+                      <TableCell className="text-xs">
+                        {new Date(message.sentAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-center">
+                        <Checkbox
+                          aria-label={`${message.recipient} opened`}
+                          checked={Boolean(
+                            message.openedAt || message.repliedAt,
+                          )}
+                          disabled={Boolean(message.repliedAt)}
+                          onCheckedChange={(checked) =>
+                            setOutcome(message.id, "opened", checked === true)
+                          }
+                        />
+                      </TableCell>
+                      <TableCell className="text-center">
+                        <Checkbox
+                          aria-label={`${message.recipient} replied`}
+                          checked={Boolean(message.repliedAt)}
+                          onCheckedChange={(checked) =>
+                            setOutcome(message.id, "replied", checked === true)
+                          }
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CollapsibleContent>
+        </Collapsible>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TestResultsCard;
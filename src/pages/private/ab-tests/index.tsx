@@ -0,0 +1,34 @@
+import useSentHistoryStore from "@/store/useSentHistoryStore";
+import { summarizeTests } from "@/utils/functions/abTest";
+import TestResultsCard from "./components/TestResultsCard";
+
+const ABTestsPage = () => {
+  const messages = useSentHistoryStore((state) => state.messages);
+  const tests = summarizeTests(messages);
+
+  return (
+    <div className="min-h-screen">
+      <div className="space-y-1 p-8">
+        <h1 className="text-2xl font-semibold">A/B Tests</h1>
+        <p className="text-sm text-muted-foreground">
+          How each subject or body variant did. Gmail doesn't report opens or
+          replies back, so tick them off as they arrive; a reply counts as an
+          open.
+        </p>
+      </div>
+      <div className="mb-24 px-4 space-y-4">
+        {tests.length === 0 && (
+          <p className="text-sm text-muted-foreground px-4">
+            No A/B tests yet. Turn on “A/B test the subject or body” on the
+            compose form to start one.
+          </p>
+        )}
+        {tests.map((test) => (
+          <TestResultsCard key={test.testId} test={test} />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ABTestsPage;
@@ -0,0 +1,92 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import * as z from "zod";
+import { Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Form } from "@/components/ui/form";
+import BasicFormField from "@/components/FormElements/BasicFormField";
+import useAccountStore from "@/store/useAccountStore";
+
+const accountSchema = z.object({
+  email: z.string().email("Enter a valid Gmail address"),
+  password: z.string().min(1, "App password is required"),
+});
+
+type AccountValues = z.infer<typeof accountSchema>;
+
+// Adds a Gmail account to send from, or replaces its app password
+const AddAccountDialog = () => {
+  const [open, setOpen] = useState(false);
+  const addAccount = useAccountStore((state) => state.addAccount);
+  const form = useForm<AccountValues>({
+    resolver: zodResolver(accountSchema),
+    defaultValues: { email: "", password: "" },
+  });
+
+  const onSubmit = (data: AccountValues) => {
+    addAccount(data);
+    toast.success(`Saved ${data.email}`);
+    form.reset();
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Account
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Add Account</DialogTitle>
+          <DialogDescription>
+            Create an app password under Google Account → Security → App
+            Passwords. Adding an existing address updates its password.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <BasicFormField<AccountValues>
+              name="email"
+              label="Gmail"
+              placeholder="johndoe@gmail.com"
+              required
+            />
+            <BasicFormField<AccountValues>
+              name="password"
+              label="App Password"
+              type="password"
+              placeholder="* * * * * *"
+              autoComplete="new-password"
+              required
+            />
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline">
+                  Cancel
+                </Button>
+              </DialogClose>
+              <Button type="submit">Save</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AddAccountDialog;
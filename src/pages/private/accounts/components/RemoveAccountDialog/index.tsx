@@ -0,0 +1,53 @@
+import { toast } from "sonner";
+import { Trash2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import useAccountStore, { type SenderAccount } from "@/store/useAccountStore";
+
+// Confirms and forgets an account's stored credentials
+const RemoveAccountDialog = ({ account }: { account: SenderAccount }) => {
+  const removeAccount = useAccountStore((state) => state.removeAccount);
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button variant="ghost" size="sm">
+          <Trash2 className="h-4 w-4 text-red-500" />
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Remove {account.email}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Its app password is deleted from this browser. Sent history is kept,
+            but queued or scheduled emails from this account will fail.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Keep</AlertDialogCancel>
+          <AlertDialogAction
+            className="bg-red-500 text-white duration-300 hover:bg-red-600"
+            onClick={() => {
+              removeAccount(account.id);
+              toast.success(`Removed ${account.email}`);
+            }}
+          >
+            Remove
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default RemoveAccountDialog;
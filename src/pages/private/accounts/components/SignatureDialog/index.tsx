@@ -0,0 +1,125 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import * as z from "zod";
+import { PenLine } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Form } from "@/components/ui/form";
+import ImageCropFormField from "@/components/FormElements/ImageCropField";
+import RichTextEditor from "@/components/RichTextEditor";
+import type { SenderAccount } from "@/store/useAccountStore";
+import useSignatureStore from "@/store/useSignatureStore";
+import { htmlToPlainText } from "@/utils/functions/emailHtml";
+import { uploadAvatar } from "@/utils/functions/signatures";
+
+const signatureSchema = z.object({
+  html: z
+    .string()
+    .refine(
+      (html) => htmlToPlainText(html).trim().length > 0,
+      "Write the signature text",
+    ),
+  avatarUrl: z.string(),
+});
+
+type SignatureValues = z.infer<typeof signatureSchema>;
+
+// Edits the signature appended to every email an account sends
+const SignatureDialog = ({ account }: { account: SenderAccount }) => {
+  const [open, setOpen] = useState(false);
+  const { getSignature, saveSignature, deleteSignature } = useSignatureStore();
+  const signature = getSignature(account.email);
+  const form = useForm<SignatureValues>({
+    resolver: zodResolver(signatureSchema),
+    defaultValues: { html: "", avatarUrl: "" },
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    form.reset({
+      html: signature?.html ?? "",
+      avatarUrl: signature?.avatarUrl ?? "",
+    });
+  }, [open]);
+
+  const onSubmit = (data: SignatureValues) => {
+    saveSignature(account.email, data);
+    toast.success(`Saved the signature for ${account.email}`);
+    setOpen(false);
+  };
+
+  const handleDelete = () => {
+    deleteSignature(account.email);
+    toast.success(`Removed the signature for ${account.email}`);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <PenLine className="h-4 w-4 mr-2" />
+          {signature ? "Edit Signature" : "Add Signature"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Signature for {account.email}</DialogTitle>
+          <DialogDescription>
+            Added under every email this account sends. The compose form can
+            swap it for another signature or leave it off.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <RichTextEditor
+              name="html"
+              label="Signature"
+              placeholder="Jane Doe · Frontend Developer · linkedin.com/in/janedoe"
+            />
+            <ImageCropFormField<SignatureValues>
+              name="avatarUrl"
+              label="Avatar (optional)"
+              apiFn={uploadAvatar}
+              height="240px"
+              removeButtonText="Remove Avatar"
+              imageAlt="Signature avatar"
+              imageClassName="h-16 w-16 rounded-full object-cover"
+            />
+            <DialogFooter>
+              {signature && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="text-red-600 sm:mr-auto"
+                  onClick={handleDelete}
+                >
+                  Remove Signature
+                </Button>
+              )}
+              <DialogClose asChild>
+                <Button type="button" variant="outline">
+                  Cancel
+                </Button>
+              </DialogClose>
+              <Button type="submit">Save</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SignatureDialog;
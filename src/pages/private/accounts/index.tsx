@@ -0,0 +1,80 @@
+import { Link } from "react-router";
+import { Star } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import routePath from "@/router/routePath";
+import useAccountStore from "@/store/useAccountStore";
+import useSentHistoryStore from "@/store/useSentHistoryStore";
+import AddAccountDialog from "./components/AddAccountDialog";
+import RemoveAccountDialog from "./components/RemoveAccountDialog";
+import SignatureDialog from "./components/SignatureDialog";
+
+const AccountsPage = () => {
+  const { accounts, defaultAccountId, setDefaultAccount } = useAccountStore();
+  const messages = useSentHistoryStore((state) => state.messages);
+
+  const sentCount = (email: string) =>
+    messages.filter(
+      (message) =>
+        message.status === "sent" &&
+        message.from.toLowerCase() === email.toLowerCase(),
+    ).length;
+
+  return (
+    <div className="min-h-screen">
+      <div className="flex justify-between p-8">
+        <div className="space-y-1">
+          <h1 className="text-2xl font-semibold">Accounts</h1>
+          <p className="text-sm text-muted-foreground">
+            Gmail accounts you can send from. The default is preselected on the
+            compose form, and each account's signature is added to its emails.
+          </p>
+        </div>
+        <AddAccountDialog />
+      </div>
+      <div className="mb-24 px-4 space-y-2">
+        {accounts.length === 0 && (
+          <p className="text-sm text-muted-foreground px-4">No accounts yet.</p>
+        )}
+        {accounts.map((account) => (
+          <Card key={account.id}>
+            <CardContent className="flex items-center justify-between gap-4">
+              <div className="space-y-1">
+                <p className="font-medium flex items-center gap-2">
+                  {account.email}
+                  {account.id === defaultAccountId && <Badge>Default</Badge>}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Added {new Date(account.addedAt).toLocaleDateString()} ·{" "}
+                  <Link
+                    to={`${routePath.sentHistory}?account=${encodeURIComponent(account.email)}`}
+                    className="underline"
+                  >
+                    {sentCount(account.email)} sent
+                  </Link>
+                </p>
+              </div>
+              <div className="flex gap-1">
+                <SignatureDialog account={account} />
+                {account.id !== defaultAccountId && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setDefaultAccount(account.id)}
+                  >
+                    <Star className="h-4 w-4 mr-2" />
+                    Make Default
+                  </Button>
+                )}
+                <RemoveAccountDialog account={account} />
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AccountsPage;
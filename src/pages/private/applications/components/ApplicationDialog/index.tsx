@@ -0,0 +1,195 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import * as z from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form } from "@/components/ui/form";
+import BasicFormField from "@/components/FormElements/BasicFormField";
+import DatePickerFormField from "@/components/FormElements/DatePickerFormField";
+import SelectFormField from "@/components/FormElements/SelectFormField";
+import TextAreaFormField from "@/components/FormElements/TextAreaFormField";
+import useApplicationStore, {
+  APPLICATION_STAGES,
+  STAGE_LABELS,
+  type JobApplication,
+} from "@/store/useApplicationStore";
+import { splitAddresses } from "@/utils/functions/emailValidation";
+
+const applicationSchema = z.object({
+  company: z.string().min(1, "Company is required"),
+  role: z.string(),
+  /** Comma-separated contact addresses */
+  contacts: z
+    .string()
+    .refine(
+      (value) =>
+        splitAddresses(value).every(
+          (address) => z.string().email().safeParse(address).success,
+        ),
+      "Separate valid addresses with commas",
+    ),
+  domain: z
+    .string()
+    .regex(/^(@?[\w-]+(\.[\w-]+)+)?$/, "Enter a domain like acme.com"),
+  stage: z.enum(APPLICATION_STAGES),
+  stageDate: z.date().optional(),
+  nextStepAt: z.date().optional(),
+  notes: z.string(),
+});
+
+type ApplicationFormValues = z.infer<typeof applicationSchema>;
+
+interface ApplicationDialogProps {
+  open: boolean;
+  /** Application to edit; a new one is created when null */
+  application: JobApplication | null;
+  onClose: () => void;
+}
+
+const toFormValues = (
+  application: JobApplication | null,
+): ApplicationFormValues => {
+  const stageDate = application?.stageDates[application.stage];
+  return {
+    company: application?.company ?? "",
+    role: application?.role ?? "",
+    contacts: application?.contacts.join(", ") ?? "",
+    domain: application?.domain ?? "",
+    stage: application?.stage ?? "contacted",
+    stageDate: stageDate ? new Date(stageDate) : new Date(),
+    nextStepAt: application?.nextStepAt
+      ? new Date(application.nextStepAt)
+      : undefined,
+    notes: application?.notes ?? "",
+  };
+};
+
+// Creates or edits a tracked application
+const ApplicationDialog = ({
+  open,
+  application,
+  onClose,
+}: ApplicationDialogProps) => {
+  const saveApplication = useApplicationStore((state) => state.saveApplication);
+  const form = useForm<ApplicationFormValues>({
+    resolver: zodResolver(applicationSchema),
+    defaultValues: toFormValues(null),
+  });
+
+  useEffect(() => {
+    if (open) form.reset(toFormValues(application));
+  }, [open, application, form]);
+
+  // A new stage starts today unless a date was picked for it
+  const stage = form.watch("stage");
+  useEffect(() => {
+    if (!open) return;
+    const reached = application?.stageDates[stage];
+    form.setValue("stageDate", reached ? new Date(reached) : new Date());
+  }, [open, stage, application, form]);
+
+  const onSubmit = (data: ApplicationFormValues) => {
+    saveApplication(
+      {
+        ...data,
+        contacts: splitAddresses(data.contacts),
+        domain: data.domain.replace(/^@/, "").toLowerCase(),
+        stageDate: data.stageDate?.toISOString(),
+        nextStepAt: data.nextStepAt?.toISOString(),
+      },
+      application?.id,
+    );
+    toast.success(`Saved ${data.company}`);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {application ? "Edit Application" : "New Application"}
+          </DialogTitle>
+          <DialogDescription>
+            Emails you send to its contacts, or to anyone at its domain, are
+            linked to it automatically.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <BasicFormField<ApplicationFormValues>
+                name="company"
+                label="Company"
+                placeholder="Acme Inc."
+                required
+              />
+              <BasicFormField<ApplicationFormValues>
+                name="role"
+                label="Role"
+                placeholder="ReactJS Developer"
+              />
+            </div>
+            <BasicFormField<ApplicationFormValues>
+              name="contacts"
+              label="Contacts"
+              placeholder="jane@acme.com, hr@acme.com"
+            />
+            <BasicFormField<ApplicationFormValues>
+              name="domain"
+              label="Company domain"
+              placeholder="acme.com"
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <SelectFormField<ApplicationFormValues>
+                name="stage"
+                label="Stage"
+                className="w-full"
+                items={APPLICATION_STAGES.map((value) => ({
+                  label: STAGE_LABELS[value],
+                  value,
+                }))}
+              />
+              <DatePickerFormField<ApplicationFormValues>
+                name="stageDate"
+                label="Since"
+                className="w-full"
+              />
+            </div>
+            <DatePickerFormField<ApplicationFormValues>
+              name="nextStepAt"
+              label="Next step"
+              placeholder="Interview, call or follow-up date"
+              className="w-full"
+            />
+            <TextAreaFormField<ApplicationFormValues>
+              name="notes"
+              label="Notes"
+              rows={4}
+            />
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline">
+                  Cancel
+                </Button>
+              </DialogClose>
+              <Button type="submit">Save</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ApplicationDialog;
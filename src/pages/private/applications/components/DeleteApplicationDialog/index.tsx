@@ -0,0 +1,61 @@
+import { toast } from "sonner";
+import { Trash2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import useApplicationStore, {
+  type JobApplication,
+} from "@/store/useApplicationStore";
+
+// Confirms and stops tracking an application
+const DeleteApplicationDialog = ({
+  application,
+}: {
+  application: JobApplication;
+}) => {
+  const deleteApplication = useApplicationStore(
+    (state) => state.deleteApplication,
+  );
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button variant="ghost" size="sm">
+          <Trash2 className="h-4 w-4 text-red-500" />
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete {application.company}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Its stages and notes are deleted. Emails sent to its contacts stay
+            in the sent history.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Keep</AlertDialogCancel>
+          <AlertDialogAction
+            className="bg-red-500 text-white duration-300 hover:bg-red-600"
+            onClick={() => {
+              deleteApplication(application.id);
+              toast.success(`Deleted ${application.company}`);
+            }}
+          >
+            Delete
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default DeleteApplicationDialog;
@@ -0,0 +1,79 @@
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import type { JobApplication } from "@/store/useApplicationStore";
+import useSentHistoryStore from "@/store/useSentHistoryStore";
+
+interface LinkedEmailsSheetProps {
+  application: JobApplication | null;
+  onClose: () => void;
+}
+
+// The emails linked to an application, with its notes alongside
+const LinkedEmailsSheet = ({
+  application,
+  onClose,
+}: LinkedEmailsSheetProps) => {
+  const messages = useSentHistoryStore((state) => state.messages);
+  const linked = messages.filter((message) =>
+    application?.messageIds.includes(message.id),
+  );
+
+  return (
+    <Sheet
+      open={Boolean(application)}
+      onOpenChange={(open) => !open && onClose()}
+    >
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        {application && (
+          <>
+            <SheetHeader>
+              <SheetTitle>{application.company}</SheetTitle>
+              <SheetDescription>
+                {application.role || "No role set"}
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="space-y-4 px-4 pb-4">
+              {application.notes && (
+                <p className="whitespace-pre-wrap rounded-md border p-3 text-sm">
+                  {application.notes}
+                </p>
+              )}
+              {linked.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No emails sent to this company yet.
+                </p>
+              ) : (
+                <ul className="divide-y rounded-md border text-sm">
+                  {linked.map((message) => (
+                    <li key={message.id} className="space-y-1 p-3">
+                      <p className="font-medium">{message.subject}</p>
+                      <p className="text-xs text-muted-foreground">
+                        To {message.recipient} ·{" "}
+                        {new Date(message.sentAt).toLocaleString()}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {/* History may have been cleared since these were linked */}
+              {linked.length < application.messageIds.length && (
+                <p className="text-xs text-muted-foreground">
+                  {application.messageIds.length - linked.length} older email(s)
+                  are no longer in the sent history.
+                </p>
+              )}
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default LinkedEmailsSheet;
@@ -0,0 +1,209 @@
+import { useEffect, useState } from "react";
+import { useSearchParams } from "react-router";
+import { useQueryClient } from "@tanstack/react-query";
+import { Mail, Pencil, Plus } from "lucide-react";
+import GenericTableComponent from "@/components/GenericTableComponent";
+import SearchBar from "@/components/SearchBar";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { GetApplicationsAPI } from "@/services/api";
+import useApplicationStore, {
+  APPLICATION_STAGES,
+  STAGE_LABELS,
+  type ApplicationStage,
+  type JobApplication,
+} from "@/store/useApplicationStore";
+import ApplicationDialog from "./components/ApplicationDialog";
+import DeleteApplicationDialog from "./components/DeleteApplicationDialog";
+import LinkedEmailsSheet from "./components/LinkedEmailsSheet";
+
+const formatDate = (value?: string) =>
+  value ? new Date(value).toLocaleDateString() : "-";
+
+const ApplicationsPage = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { applications, setStage } = useApplicationStore();
+  const [editing, setEditing] = useState<JobApplication | "new" | null>(null);
+  const [viewing, setViewing] = useState<JobApplication | null>(null);
+  const queryClient = useQueryClient();
+
+  const filter = searchParams.get("filter") || "";
+  const stage = searchParams.get("stage") || "";
+
+  // Sends linked in the background should show up without a reload
+  useEffect(() => {
+    queryClient.invalidateQueries({ queryKey: ["GetApplicationsAPI"] });
+  }, [applications, queryClient]);
+
+  const handleStageFilterChange = (value: string) => {
+    const newParams = new URLSearchParams(searchParams);
+    if (value === "all") {
+      newParams.delete("stage");
+    } else {
+      newParams.set("stage", value);
+    }
+    newParams.set("page", "1");
+    setSearchParams(newParams);
+  };
+
+  const columns = [
+    {
+      header: "Company",
+      accessorKey: "company",
+      cell: (item: JobApplication) => (
+        <div>
+          <p className="font-medium">{item.company}</p>
+          {item.role && (
+            <p className="text-xs text-muted-foreground">{item.role}</p>
+          )}
+        </div>
+      ),
+    },
+    {
+      header: "Contacts",
+      accessorKey: "contacts",
+      cell: (item: JobApplication) =>
+        [...item.contacts, ...(item.domain ? [`@${item.domain}`] : [])].join(
+          ", ",
+        ) || "-",
+      csvValue: (value: string[]) => value.join("; "),
+    },
+    {
+      header: "Stage",
+      accessorKey: "stage",
+      cell: (item: JobApplication) => (
+        <Select
+          value={item.stage}
+          onValueChange={(value) =>
+            setStage(item.id, value as ApplicationStage)
+          }
+        >
+          <SelectTrigger className="w-[130px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {APPLICATION_STAGES.map((value) => (
+              <SelectItem key={value} value={value}>
+                {STAGE_LABELS[value]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ),
+    },
+    {
+      header: "Since",
+      accessorKey: "stageDates",
+      cell: (item: JobApplication) => formatDate(item.stageDates[item.stage]),
+      csvValue: (value: JobApplication["stageDates"], item: JobApplication) =>
+        formatDate(value[item.stage]),
+    },
+    {
+      header: "Next Step",
+      accessorKey: "nextStepAt",
+      cell: (item: JobApplication) => formatDate(item.nextStepAt),
+      csvValue: (value?: string) => formatDate(value),
+    },
+    {
+      header: "Last Emailed",
+      accessorKey: "lastEmailedAt",
+      cell: (item: JobApplication) => formatDate(item.lastEmailedAt),
+      csvValue: (value?: string) => formatDate(value),
+    },
+    {
+      header: "Emails",
+      accessorKey: "messageIds",
+      cell: (item: JobApplication) => (
+        <Button variant="ghost" size="sm" onClick={() => setViewing(item)}>
+          <Mail className="h-4 w-4 mr-1" />
+          {item.messageIds.length}
+        </Button>
+      ),
+      csvValue: (value: string[]) => value.length,
+    },
+    {
+      header: "",
+      cell: (item: JobApplication) => (
+        <div className="flex gap-1">
+          <Button variant="ghost" size="sm" onClick={() => setEditing(item)}>
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <DeleteApplicationDialog application={item} />
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <div className="min-h-screen">
+      <div className="flex justify-between p-8">
+        <div className="space-y-1">
+          <h1 className="text-2xl font-semibold">Applications</h1>
+          <p className="text-sm text-muted-foreground">
+            Emails sent to a company's contacts are linked here automatically.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <SearchBar placeholder="Search company, role or contact..." />
+          <Button onClick={() => setEditing("new")}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Application
+          </Button>
+        </div>
+      </div>
+      <div className="mb-24 px-4">
+        <GenericTableComponent
+          apiFn={GetApplicationsAPI}
+          queryKey="GetApplicationsAPI"
+          columns={columns}
+          initialFilters={{ filter, stage }}
+          filters={{
+            stage: (
+              <div className="space-y-1">
+                <Label>Stage</Label>
+                <Select
+                  value={stage || "all"}
+                  onValueChange={handleStageFilterChange}
+                >
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All stages</SelectItem>
+                    {APPLICATION_STAGES.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {STAGE_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ),
+          }}
+          dataPath="data.items"
+          csvFileName="applications"
+          emptyMessage="No applications tracked yet."
+        />
+      </div>
+
+      <ApplicationDialog
+        open={editing !== null}
+        application={editing === "new" ? null : editing}
+        onClose={() => setEditing(null)}
+      />
+      <LinkedEmailsSheet
+        application={viewing}
+        onClose={() => setViewing(null)}
+      />
+    </div>
+  );
+};
+
+export default ApplicationsPage;
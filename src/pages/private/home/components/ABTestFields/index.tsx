@@ -0,0 +1,176 @@
+import { Controller, useFieldArray, useFormContext } from "react-hook-form";
+import { v4 as uuidv4 } from "uuid";
+import { Link } from "react-router";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import BasicFormField from "@/components/FormElements/BasicFormField";
+import SelectFormField from "@/components/FormElements/SelectFormField";
+import RichTextEditor from "@/components/RichTextEditor";
+import routePath from "@/router/routePath";
+import { variantLabel, type ABTestSettings } from "@/utils/functions/abTest";
+
+type ABTestForm = { abTest: ABTestSettings };
+
+const newVariant = () => ({ id: uuidv4(), subject: "", body: "", weight: 1 });
+
+// Extra subject/body variants for the send, shown under the body when the
+// A/B test switch is on
+const ABTestFields = () => {
+  const {
+    control,
+    register,
+    watch,
+    formState: { errors },
+  } = useFormContext<ABTestForm>();
+  const { fields, append, remove } = useFieldArray({
+    control,
+    name: "abTest.variants",
+  });
+  const { enabled, split } = watch("abTest");
+  const testErrors = errors.abTest;
+
+  const weightInput = (
+    id: string,
+    name: "abTest.weight" | `abTest.variants.${number}.weight`,
+  ) => (
+    <div className="flex items-center gap-2">
+      <Label htmlFor={id} className="text-xs font-normal">
+        Ratio
+      </Label>
+      <Input
+        id={id}
+        type="number"
+        min={1}
+        className="h-8 w-20"
+        {...register(name, { valueAsNumber: true })}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Controller
+          name="abTest.enabled"
+          control={control}
+          render={({ field }) => (
+            <Switch
+              id="abTestEnabled"
+              checked={field.value}
+              onCheckedChange={(checked) => {
+                field.onChange(checked);
+                if (checked && fields.length === 0) append(newVariant());
+              }}
+            />
+          )}
+        />
+        <Label htmlFor="abTestEnabled">A/B test the subject or body</Label>
+      </div>
+
+      {enabled && (
+        <div className="space-y-4 rounded-md border p-3">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <BasicFormField<ABTestForm>
+              name="abTest.name"
+              label="Test name"
+              placeholder="Short vs. long intro"
+              required
+            />
+            <SelectFormField<ABTestForm>
+              name="abTest.split"
+              label="Split"
+              className="w-full"
+              items={[
+                { label: "Random, even split", value: "random" },
+                { label: "Random, by ratio", value: "ratio" },
+              ]}
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm">
+              <span className="font-semibold">Variant A</span> uses the subject
+              and body above
+            </p>
+            {split === "ratio" && weightInput("weight-a", "abTest.weight")}
+          </div>
+
+          {fields.map((field, index) => (
+            <div key={field.id} className="space-y-2 border-t pt-3">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-semibold">
+                  Variant {variantLabel(index + 1)}
+                </p>
+                <div className="flex items-center gap-2">
+                  {split === "ratio" &&
+                    weightInput(
+                      `weight-${field.id}`,
+                      `abTest.variants.${index}.weight`,
+                    )}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => remove(index)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <BasicFormField<ABTestForm>
+                name={`abTest.variants.${index}.subject`}
+                placeholder="Subject; leave blank to keep variant A's"
+              />
+              <RichTextEditor
+                name={`abTest.variants.${index}.body`}
+                placeholder="Body; leave blank to keep variant A's"
+              />
+            </div>
+          ))}
+
+          {testErrors?.enabled && (
+            <p className="text-sm text-red-500">{testErrors.enabled.message}</p>
+          )}
+          {testErrors?.variants?.message && (
+            <p className="text-sm text-red-500">
+              {testErrors.variants.message}
+            </p>
+          )}
+          {testErrors?.weight && (
+            <p className="text-sm text-red-500">{testErrors.weight.message}</p>
+          )}
+          {testErrors?.variants?.some?.((variant) => variant?.weight) && (
+            <p className="text-sm text-red-500">
+              Enter a ratio for each variant
+            </p>
+          )}
+
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs text-muted-foreground">
+              Each recipient is picked for one variant at random. Compare how
+              they did on the{" "}
+              <Link to={routePath.abTests} className="underline">
+                A/B Tests
+              </Link>{" "}
+              page.
+            </p>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => append(newVariant())}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Variant
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ABTestFields;
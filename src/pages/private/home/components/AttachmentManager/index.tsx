@@ -0,0 +1,190 @@
+import { useRef, useState } from "react";
+import { toast } from "sonner";
+import { Loader2, Paperclip, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { getScheduledAttachmentIds } from "@/services/api";
+import useAttachmentStore, { getTotalSize } from "@/store/useAttachmentStore";
+import useSendQueueStore, {
+  getItemAttachmentIds,
+} from "@/store/useSendQueueStore";
+import useSequenceStore from "@/store/useSequenceStore";
+import useTemplateStore from "@/store/useTemplateStore";
+import { gmailAttachmentLimit } from "@/utils/constants";
+import { formatFileSize } from "@/utils/functions/formatFileSize";
+
+interface AttachmentManagerProps {
+  /** Attachment ids included in the next send */
+  value: string[];
+  onChange: (ids: string[]) => void;
+  disabled?: boolean;
+}
+
+// Attachment library with per-send selection and Gmail's size limit
+const AttachmentManager = ({
+  value,
+  onChange,
+  disabled,
+}: AttachmentManagerProps) => {
+  const { attachments, addFiles, removeAttachment } = useAttachmentStore();
+  const [isAdding, setIsAdding] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const batches = useSendQueueStore((state) => state.batches);
+  const sequences = useSequenceStore((state) => state.sequences);
+  const contacts = useSequenceStore((state) => state.contacts);
+  const templates = useTemplateStore((state) => state.templates);
+
+  // Files that queued, outbox or scheduled emails, or follow-ups still due,
+  // have to upload, with the reason shown on the disabled delete button
+  const neededBy = new Map<string, string>();
+  const protect = (ids: string[], reason: string) =>
+    ids.forEach((id) => {
+      if (!neededBy.has(id)) neededBy.set(id, reason);
+    });
+  protect(
+    batches.flatMap((batch) =>
+      batch.items
+        .filter(
+          (item) => item.status === "pending" || item.status === "sending",
+        )
+        .flatMap((item) => getItemAttachmentIds(batch, item)),
+    ),
+    "Still needed by an email waiting to be sent",
+  );
+  protect(getScheduledAttachmentIds(), "Still needed by a scheduled email");
+  protect(
+    contacts
+      .filter(
+        (contact) =>
+          contact.status !== "replied" && contact.status !== "completed",
+      )
+      .flatMap((contact) => {
+        const sequence = sequences.find(({ id }) => id === contact.sequenceId);
+        // The next follow-up is steps[stepsSent - 1]; all are due before the
+        // initial email goes out
+        return (sequence?.steps ?? []).slice(
+          Math.max(contact.stepsSent - 1, 0),
+        );
+      })
+      .flatMap(
+        (step) =>
+          templates.find(({ id }) => id === step.templateId)?.attachmentIds ??
+          [],
+      ),
+    "Still needed by a follow-up that has not been sent",
+  );
+
+  const totalSize = getTotalSize(attachments, value);
+  const isOverLimit = totalSize > gmailAttachmentLimit;
+
+  const toggle = (id: string, checked: boolean) =>
+    onChange(
+      checked ? [...value, id] : value.filter((selected) => selected !== id),
+    );
+
+  const handleAdd = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = "";
+    if (files.length === 0) return;
+
+    setIsAdding(true);
+    try {
+      const ids = await addFiles(files);
+      onChange([...value, ...ids]);
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to store the attachment in your browser");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(value.filter((selected) => selected !== id));
+    removeAttachment(id);
+  };
+
+  return (
+    <div className="space-y-2">
+      {attachments.length > 0 && (
+        <div className="rounded-md border divide-y">
+          {attachments.map((attachment) => (
+            <div
+              key={attachment.id}
+              className="flex items-center gap-3 px-3 py-2 text-sm"
+            >
+              <Checkbox
+                id={`attachment-${attachment.id}`}
+                checked={value.includes(attachment.id)}
+                onCheckedChange={(checked) =>
+                  toggle(attachment.id, checked === true)
+                }
+                disabled={disabled}
+              />
+              <label
+                htmlFor={`attachment-${attachment.id}`}
+                className="flex-1 truncate cursor-pointer"
+              >
+                {attachment.name}
+              </label>
+              <span className="text-xs text-muted-foreground">
+                {formatFileSize(attachment.size)}
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => handleRemove(attachment.id)}
+                disabled={disabled || neededBy.has(attachment.id)}
+                title={neededBy.get(attachment.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-3">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => inputRef.current?.click()}
+          disabled={disabled || isAdding}
+        >
+          {isAdding ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Paperclip className="h-4 w-4 mr-2" />
+          )}
+          Add Files
+        </Button>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={handleAdd}
+        />
+        <span
+          className={`text-xs ${isOverLimit ? "text-red-500 font-semibold" : "text-muted-foreground"}`}
+        >
+          {formatFileSize(totalSize)} of {formatFileSize(gmailAttachmentLimit)}{" "}
+          selected
+        </span>
+      </div>
+
+      <div className="h-2 w-full rounded-full bg-secondary overflow-hidden">
+        <div
+          className={`h-full transition-all ${isOverLimit ? "bg-red-500" : "bg-primary"}`}
+          style={{
+            width: `${Math.min(100, (totalSize / gmailAttachmentLimit) * 100)}%`,
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default AttachmentManager;
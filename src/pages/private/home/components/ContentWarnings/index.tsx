@@ -0,0 +1,23 @@
+import { AlertTriangle } from "lucide-react";
+import type { LintWarning } from "@/utils/functions/contentLint";
+
+// Content lint results shown under a field; they never block sending
+const ContentWarnings = ({ warnings }: { warnings: LintWarning[] }) => {
+  if (warnings.length === 0) return null;
+
+  return (
+    <ul className="space-y-1">
+      {warnings.map((warning) => (
+        <li
+          key={warning.message}
+          className="flex items-start gap-2 text-xs text-amber-600"
+        >
+          <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+          {warning.message}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default ContentWarnings;
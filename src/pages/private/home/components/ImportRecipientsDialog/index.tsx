@@ -0,0 +1,271 @@
+import { useMemo, useState } from "react";
+import { toast } from "sonner";
+import { FileSpreadsheetIcon, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import useSuppressionStore from "@/store/useSuppressionStore";
+import downloadCSV from "@/utils/functions/downloadCSV";
+import { isValidEmail } from "@/utils/functions/emailValidation";
+import type { MergeData } from "@/utils/functions/mergeFields";
+import {
+  readSpreadsheet,
+  toMergeFieldName,
+  type SpreadsheetContent,
+} from "@/utils/functions/readSpreadsheet";
+
+interface ImportRecipientsDialogProps {
+  recipients: string[];
+  recipientData: Record<string, MergeData>;
+  onImport: (recipients: string[], data: Record<string, MergeData>) => void;
+}
+
+interface InvalidRow {
+  row: number;
+  value: string;
+  reason: string;
+}
+
+const ImportRecipientsDialog = ({
+  recipients,
+  recipientData,
+  onImport,
+}: ImportRecipientsDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [sheet, setSheet] = useState<SpreadsheetContent | null>(null);
+  const [emailColumn, setEmailColumn] = useState("");
+  const [fieldNames, setFieldNames] = useState<Record<string, string>>({});
+  const suppressed = useSuppressionStore((state) => state.addresses);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const content = await readSpreadsheet(file);
+      if (content.headers.length === 0) {
+        toast.error("The file has no header row");
+        return;
+      }
+      setSheet(content);
+      setEmailColumn(
+        content.headers.find((header) => /e-?mail/i.test(header)) ||
+          content.headers[0],
+      );
+      setFieldNames(
+        Object.fromEntries(
+          content.headers.map((header) => [header, toMergeFieldName(header)]),
+        ),
+      );
+    } catch (error) {
+      console.error("Failed to read spreadsheet:", error);
+      toast.error("Could not read the file. Use a CSV or XLSX file.");
+    }
+  };
+
+  // Split rows into importable recipients and rows to fix first
+  const { valid, invalid } = useMemo(() => {
+    const valid: Record<string, MergeData> = {};
+    const invalid: InvalidRow[] = [];
+    const firstSeen = new Map<string, number>();
+
+    sheet?.rows.forEach((row, index) => {
+      const rowNumber = index + 2; // Header is row 1
+      const email = (row[emailColumn] || "").trim();
+
+      if (!email) {
+        invalid.push({ row: rowNumber, value: email, reason: "Missing email" });
+        return;
+      }
+      if (!isValidEmail(email)) {
+        invalid.push({ row: rowNumber, value: email, reason: "Invalid email" });
+        return;
+      }
+      const key = email.toLowerCase();
+      if (suppressed.includes(key)) {
+        invalid.push({
+          row: rowNumber,
+          value: email,
+          reason: "On the suppression list",
+        });
+        return;
+      }
+      if (firstSeen.has(key)) {
+        invalid.push({
+          row: rowNumber,
+          value: email,
+          reason: `Duplicate of row ${firstSeen.get(key)}`,
+        });
+        return;
+      }
+      firstSeen.set(key, rowNumber);
+
+      const data: MergeData = {};
+      Object.entries(fieldNames).forEach(([header, fieldName]) => {
+        if (header !== emailColumn && fieldName && row[header]?.trim()) {
+          data[fieldName] = row[header].trim();
+        }
+      });
+      valid[email] = data;
+    });
+
+    return { valid, invalid };
+  }, [sheet, emailColumn, fieldNames, suppressed]);
+
+  const validCount = Object.keys(valid).length;
+
+  const handleImport = () => {
+    onImport(Object.keys(valid), valid);
+    toast.success(`Imported ${validCount} recipients`);
+    handleOpenChange(false);
+  };
+
+  const handleExport = () => {
+    const fields = Array.from(
+      new Set(
+        recipients.flatMap((email) => Object.keys(recipientData[email] || {})),
+      ),
+    );
+    downloadCSV({
+      data: recipients.map((email) => ({
+        email,
+        ...Object.fromEntries(
+          fields.map((field) => [field, recipientData[email]?.[field] || ""]),
+        ),
+      })),
+      fileName: "recipients",
+      onSuccess: (file) => toast.success(`${file} downloaded successfully`),
+      onError: (err) => toast.error(`Export failed: ${err.message}`),
+    });
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) {
+      setSheet(null);
+      setEmailColumn("");
+      setFieldNames({});
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" size="sm">
+          <Upload className="h-4 w-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Recipients</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or XLSX file, choose the email column and map the other
+            columns to merge fields.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Input type="file" accept=".csv,.xlsx" onChange={handleFileChange} />
+
+          {sheet && (
+            <>
+              <div className="space-y-2">
+                <Label>Email column</Label>
+                <Select value={emailColumn} onValueChange={setEmailColumn}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sheet.headers.map((header) => (
+                      <SelectItem key={header} value={header}>
+                        {header}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Merge fields</Label>
+                <p className="text-xs text-muted-foreground">
+                  Leave a field name empty to skip that column.
+                </p>
+                {sheet.headers
+                  .filter((header) => header !== emailColumn)
+                  .map((header) => (
+                    <div key={header} className="flex items-center gap-2">
+                      <span className="w-1/3 truncate text-sm">{header}</span>
+                      <Input
+                        value={fieldNames[header] || ""}
+                        onChange={(e) =>
+                          setFieldNames((prev) => ({
+                            ...prev,
+                            [header]: toMergeFieldName(e.target.value),
+                          }))
+                        }
+                        placeholder="Skip column"
+                      />
+                    </div>
+                  ))}
+              </div>
+
+              {invalid.length > 0 && (
+                <div className="space-y-1 rounded-md border border-red-200 bg-red-50 p-3">
+                  <p className="text-sm font-semibold text-red-800">
+                    {invalid.length} rows will be skipped
+                  </p>
+                  <ul className="max-h-40 overflow-y-auto text-xs text-red-800">
+                    {invalid.map((item) => (
+                      <li key={item.row}>
+                        Row {item.row}: {item.value || "(empty)"} –{" "}
+                        {item.reason}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleExport}
+            disabled={recipients.length === 0}
+          >
+            <FileSpreadsheetIcon className="h-4 w-4 mr-2" />
+            Export Current
+          </Button>
+          <Button
+            type="button"
+            onClick={handleImport}
+            disabled={validCount === 0}
+          >
+            Import {validCount > 0 && validCount} Recipients
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportRecipientsDialog;
@@ -0,0 +1,78 @@
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { MergeData, MergeField } from "@/utils/functions/mergeFields";
+
+interface MergeDataEditorProps {
+  recipients: string[];
+  fields: MergeField[];
+  value: Record<string, MergeData>;
+  onChange: (value: Record<string, MergeData>) => void;
+  missing: Record<string, string[]>;
+}
+
+// Grid of merge values, one row per recipient and one column per placeholder
+const MergeDataEditor = ({
+  recipients,
+  fields,
+  value,
+  onChange,
+  missing,
+}: MergeDataEditorProps) => {
+  const handleChange = (email: string, field: string, fieldValue: string) => {
+    onChange({
+      ...value,
+      [email]: { ...value[email], [field]: fieldValue },
+    });
+  };
+
+  if (fields.length === 0 || recipients.length === 0) return null;
+
+  return (
+    <div className="rounded-md border overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Recipient</TableHead>
+            {fields.map((field) => (
+              <TableHead key={field.name}>
+                {field.name}
+                {field.required && <span className="text-red-500"> *</span>}
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {recipients.map((email) => (
+            <TableRow key={email}>
+              <TableCell className="text-xs font-medium">{email}</TableCell>
+              {fields.map((field) => (
+                <TableCell key={field.name} className="min-w-[140px]">
+                  <Input
+                    value={value[email]?.[field.name] || ""}
+                    onChange={(e) =>
+                      handleChange(email, field.name, e.target.value)
+                    }
+                    className={
+                      missing[email]?.includes(field.name)
+                        ? "border-red-500"
+                        : ""
+                    }
+                  />
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default MergeDataEditor;
@@ -0,0 +1,213 @@
+import { useState } from "react";
+import {
+  AlertTriangle,
+  ChevronLeft,
+  ChevronRight,
+  Paperclip,
+} from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import useAttachmentStore from "@/store/useAttachmentStore";
+import { formatFileSize } from "@/utils/functions/formatFileSize";
+import { splitUnresolved, type MergeData } from "@/utils/functions/mergeFields";
+import { renderMessages } from "@/utils/functions/renderMessages";
+
+interface MessagePreviewProps {
+  from: string;
+  recipients: string[];
+  recipientData: Record<string, MergeData>;
+  cc: string[];
+  bcc: string[];
+  subject: string;
+  /** HTML body with merge placeholders */
+  body: string;
+  attachmentIds: string[];
+}
+
+const MARK_STYLE = "background:#fde68a;color:#92400e;border-radius:2px";
+
+// Wraps placeholders left in the rendered HTML so they stand out; only text
+// is touched, so a placeholder inside a link's href stays intact
+const highlightUnresolved = (html: string) => {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  const walker = doc.createTreeWalker(doc.body, NodeFilter.SHOW_TEXT);
+  const textNodes: Text[] = [];
+  while (walker.nextNode()) textNodes.push(walker.currentNode as Text);
+
+  textNodes.forEach((node) => {
+    const segments = splitUnresolved(node.data);
+    if (!segments.some((segment) => segment.placeholder)) return;
+    const fragment = doc.createDocumentFragment();
+    segments.forEach(({ text, placeholder }) => {
+      if (!placeholder) {
+        fragment.append(text);
+        return;
+      }
+      const mark = doc.createElement("mark");
+      mark.setAttribute("style", MARK_STYLE);
+      mark.textContent = text;
+      fragment.append(mark);
+    });
+    node.replaceWith(fragment);
+  });
+  return doc.body.innerHTML;
+};
+
+const countUnresolved = (...texts: string[]) =>
+  texts
+    .flatMap((text) => splitUnresolved(text))
+    .filter((segment) => segment.placeholder).length;
+
+// What one recipient will receive, with a picker to step through them
+const MessagePreview = ({
+  from,
+  recipients,
+  recipientData,
+  cc,
+  bcc,
+  subject,
+  body,
+  attachmentIds,
+}: MessagePreviewProps) => {
+  const [selected, setSelected] = useState("");
+  const attachments = useAttachmentStore((state) => state.attachments).filter(
+    (attachment) => attachmentIds.includes(attachment.id),
+  );
+
+  const messages = renderMessages({
+    recipients: recipients.length > 0 ? recipients : [""],
+    recipientData,
+    subject,
+    body,
+  });
+  const index = Math.max(recipients.indexOf(selected), 0);
+  const message = messages[index];
+  const unresolved = countUnresolved(message.subject, message.html);
+
+  const step = (offset: number) =>
+    setSelected(
+      recipients[(index + offset + recipients.length) % recipients.length],
+    );
+
+  return (
+    <Card className="shadow-xl">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-base">
+          Preview
+          {recipients.length > 1 && (
+            <div className="flex items-center gap-1 text-sm font-normal">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => step(-1)}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              {index + 1} of {recipients.length}
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => step(1)}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {recipients.length > 1 && (
+          <div className="flex max-h-24 flex-wrap gap-1 overflow-y-auto">
+            {messages.map((item, itemIndex) => (
+              <button
+                key={item.recipient}
+                type="button"
+                onClick={() => setSelected(item.recipient)}
+              >
+                <Badge
+                  variant={itemIndex === index ? "default" : "outline"}
+                  className={
+                    countUnresolved(item.subject, item.html) > 0
+                      ? "border-amber-400"
+                      : ""
+                  }
+                >
+                  {item.recipient}
+                </Badge>
+              </button>
+            ))}
+          </div>
+        )}
+
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+          <dt className="font-semibold">From</dt>
+          <dd className="truncate">{from || "-"}</dd>
+          <dt className="font-semibold">To</dt>
+          <dd className="truncate">
+            {message.recipient || (
+              <span className="text-muted-foreground">No recipients yet</span>
+            )}
+          </dd>
+          {cc.length > 0 && (
+            <>
+              <dt className="font-semibold">Cc</dt>
+              <dd className="truncate">{cc.join(", ")}</dd>
+            </>
+          )}
+          {bcc.length > 0 && (
+            <>
+              <dt className="font-semibold">Bcc</dt>
+              <dd className="truncate">{bcc.join(", ")}</dd>
+            </>
+          )}
+          <dt className="font-semibold">Subject</dt>
+          <dd>
+            {splitUnresolved(message.subject).map(({ text, placeholder }, i) =>
+              placeholder ? (
+                <mark
+                  key={i}
+                  className="rounded-sm bg-amber-200 text-amber-900"
+                >
+                  {text}
+                </mark>
+              ) : (
+                text
+              ),
+            )}
+          </dd>
+        </dl>
+
+        {unresolved > 0 && (
+          <p className="flex items-center gap-2 text-sm text-amber-600">
+            <AlertTriangle className="h-4 w-4" />
+            {unresolved} unresolved placeholder{unresolved === 1 ? "" : "s"}
+          </p>
+        )}
+
+        {/* Sandboxed so the draft markup cannot run scripts */}
+        <iframe
+          title="Message preview"
+          sandbox=""
+          srcDoc={highlightUnresolved(message.html)}
+          className="h-[50vh] w-full rounded-md border bg-white"
+        />
+
+        {attachments.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {attachments.map((attachment) => (
+              <Badge key={attachment.id} variant="outline">
+                <Paperclip className="h-3 w-3" />
+                {attachment.name} ({formatFileSize(attachment.size)})
+              </Badge>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MessagePreview;
@@ -0,0 +1,140 @@
+import { AlertTriangle, CheckCircle2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  isRoleAddress,
+  suggestDomainFix,
+} from "@/utils/functions/emailValidation";
+
+interface AddressListSummary<K extends string> {
+  key: K;
+  label: string;
+  addresses: string[];
+}
+
+interface RecipientSummaryDialogProps<K extends string> {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  lists: AddressListSummary<K>[];
+  onFix: (key: K, address: string, suggestion: string) => void;
+  onConfirm: () => void;
+  confirmLabel: string;
+}
+
+// Last look at who is about to be emailed, with typo and role warnings
+const RecipientSummaryDialog = <K extends string>({
+  open,
+  onOpenChange,
+  lists,
+  onFix,
+  onConfirm,
+  confirmLabel,
+}: RecipientSummaryDialogProps<K>) => {
+  const nonEmpty = lists.filter((list) => list.addresses.length > 0);
+  const typos = nonEmpty.flatMap(({ key, label, addresses }) =>
+    addresses.flatMap((address) => {
+      const suggestion = suggestDomainFix(address);
+      return suggestion ? [{ key, label, address, suggestion }] : [];
+    }),
+  );
+  const roleAddresses = nonEmpty.flatMap(({ label, addresses }) =>
+    addresses
+      .filter((address) => isRoleAddress(address))
+      .map((address) => ({ label, address })),
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Review Recipients</DialogTitle>
+          <DialogDescription>
+            {nonEmpty
+              .map(
+                ({ label, addresses }) =>
+                  `${label}: ${addresses.length} address${addresses.length === 1 ? "" : "es"}`,
+              )
+              .join(" · ")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          {typos.length > 0 && (
+            <div className="space-y-2">
+              <p className="font-semibold text-amber-700">Possible typos</p>
+              <ul className="space-y-1">
+                {typos.map(({ key, label, address, suggestion }) => (
+                  <li
+                    key={`${key}-${address}`}
+                    className="flex items-center justify-between gap-2"
+                  >
+                    <span className="truncate">
+                      {label}: {address} → {suggestion}
+                    </span>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onFix(key, address, suggestion)}
+                    >
+                      Fix
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {roleAddresses.length > 0 && (
+            <div className="space-y-2">
+              <p className="font-semibold text-amber-700">Role addresses</p>
+              <p className="text-muted-foreground">
+                Shared inboxes often go unread, and no-reply addresses cannot
+                receive mail.
+              </p>
+              <ul className="space-y-1">
+                {roleAddresses.map(({ label, address }) => (
+                  <li
+                    key={`${label}-${address}`}
+                    className="flex items-center gap-2"
+                  >
+                    <AlertTriangle className="h-4 w-4 text-amber-600" />
+                    {label}: {address}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {typos.length === 0 && roleAddresses.length === 0 && (
+            <p className="flex items-center gap-2 text-green-700">
+              <CheckCircle2 className="h-4 w-4" />
+              No problems found
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button type="button" variant="outline">
+              Back
+            </Button>
+          </DialogClose>
+          <Button type="button" onClick={onConfirm}>
+            {confirmLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecipientSummaryDialog;
@@ -0,0 +1,201 @@
+import { Link } from "react-router";
+import { useNetworkState } from "@uidotdev/usehooks";
+import {
+  CheckCircle2,
+  Clock,
+  Loader2,
+  RotateCcw,
+  X,
+  XCircle,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import routePath from "@/router/routePath";
+import useSendQueueStore, {
+  hasCopiesOut,
+  type SendBatch,
+  type SendStatus,
+} from "@/store/useSendQueueStore";
+import useSendQuotaStore, {
+  getMessageCost,
+  getResumeAt,
+} from "@/store/useSendQuotaStore";
+import {
+  SEND_ERROR_MESSAGES,
+  type SendErrorKind,
+} from "@/utils/functions/sendErrors";
+
+const statusIcons: Record<SendStatus, React.ReactNode> = {
+  pending: <Clock className="h-4 w-4 text-muted-foreground" />,
+  sending: <Loader2 className="h-4 w-4 animate-spin text-primary" />,
+  sent: <CheckCircle2 className="h-4 w-4 text-green-600" />,
+  failed: <XCircle className="h-4 w-4 text-red-600" />,
+};
+
+const FAILURE_LABELS: Record<SendErrorKind, string> = {
+  auth: "Sign-in failed",
+  quota: "Sending limit reached",
+  recipient: "Recipients rejected",
+  attachment: "Attachments too large",
+  network: "Network error",
+  unknown: "Other errors",
+};
+
+const FAILURE_HINTS: Record<SendErrorKind, string> = {
+  ...SEND_ERROR_MESSAGES,
+  recipient:
+    "The receiving mail servers refused these addresses. Check them for typos; temporary (4xx) rejections often succeed on retry.",
+};
+
+interface SendProgressProps {
+  batch: SendBatch;
+  onDismiss: () => void;
+}
+
+// Live per-recipient status of a queued send
+const SendProgress = ({ batch, onDismiss }: SendProgressProps) => {
+  const count = (status: SendStatus) =>
+    batch.items.filter((item) => item.status === status).length;
+  const sent = count("sent");
+  const failed = count("failed");
+  const isDone = sent + failed === batch.items.length;
+  const { sends, settings } = useSendQuotaStore();
+  const { online } = useNetworkState();
+  const retryFailed = useSendQueueStore((state) => state.retryFailed);
+  // Skipped follow-ups have no kind and are not offered for retry
+  const failures = batch.items.reduce(
+    (groups, item) =>
+      item.status === "failed" && item.errorKind
+        ? { ...groups, [item.errorKind]: (groups[item.errorKind] ?? 0) + 1 }
+        : groups,
+    {} as Partial<Record<SendErrorKind, number>>,
+  );
+  const failureKinds = Object.keys(failures) as SendErrorKind[];
+
+  // Queues only the failed recipients again, optionally limited to one kind
+  const handleRetry = (kind?: SendErrorKind, dropAttachments = false) =>
+    retryFailed(batch.id, { kind, dropAttachments });
+  // The runner holds rows back while the account is out of quota
+  const resumeAt =
+    isDone || count("sending") > 0
+      ? null
+      : getResumeAt(
+          sends,
+          batch.from,
+          hasCopiesOut(batch) ? 1 : getMessageCost(batch),
+          settings.dailyLimit,
+        );
+  const isHeld = batch.holdUntil
+    ? new Date(batch.holdUntil) > new Date()
+    : false;
+  const label = isDone
+    ? "Finished"
+    : isHeld
+      ? "About to send"
+      : !online
+        ? "In outbox"
+        : resumeAt
+          ? "Paused"
+          : "Sending";
+
+  return (
+    <div className="rounded-md border p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-semibold">
+          {label}: {sent}/{batch.items.length} sent
+          {failed > 0 && (
+            <span className="text-red-600">, {failed} failed</span>
+          )}
+        </p>
+        {isDone && (
+          <Button type="button" variant="ghost" size="sm" onClick={onDismiss}>
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      {!isDone && !online && (
+        <p className="text-xs text-amber-700">
+          You're offline. The remaining emails are kept in the outbox and send
+          when the connection returns.
+        </p>
+      )}
+      {resumeAt && online && (
+        <p className="text-xs text-amber-700">
+          {batch.from} has reached its limit of {settings.dailyLimit} recipients
+          in 24 hours. Sending resumes around {resumeAt.toLocaleTimeString()}.
+        </p>
+      )}
+      {isDone &&
+        failureKinds.map((kind) => (
+          <div
+            key={kind}
+            className="rounded-md border border-red-200 bg-red-50 p-2 space-y-2 dark:bg-red-950/20"
+          >
+            <p className="text-xs">
+              <span className="font-semibold text-red-700">
+                {FAILURE_LABELS[kind]} ({failures[kind]})
+              </span>{" "}
+              {FAILURE_HINTS[kind]}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {kind === "auth" && (
+                <Button asChild type="button" variant="outline" size="sm">
+                  <Link to={routePath.accounts}>Update password</Link>
+                </Button>
+              )}
+              {kind === "attachment" && batch.attachmentIds.length > 0 && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRetry(kind, true)}
+                >
+                  Retry without attachments
+                </Button>
+              )}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => handleRetry(kind)}
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Retry {failures[kind]}
+              </Button>
+            </div>
+          </div>
+        ))}
+      {isDone && failureKinds.length > 1 && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => handleRetry()}
+        >
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Retry all failed recipients
+        </Button>
+      )}
+      <div className="h-2 w-full rounded-full bg-secondary overflow-hidden">
+        <div
+          className="h-full bg-primary transition-all"
+          style={{ width: `${((sent + failed) / batch.items.length) * 100}%` }}
+        />
+      </div>
+      <ul className="max-h-60 overflow-y-auto space-y-1">
+        {batch.items.map((item) => (
+          <li key={item.id} className="flex items-center gap-2 text-sm">
+            {statusIcons[item.status]}
+            <span className="flex-1 truncate">{item.recipient}</span>
+            {item.error && (
+              <span className="truncate text-xs text-red-600">
+                {item.error}
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SendProgress;
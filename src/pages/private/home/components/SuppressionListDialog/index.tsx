@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { Ban, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import useSuppressionStore from "@/store/useSuppressionStore";
+import {
+  checkAddresses,
+  splitAddresses,
+} from "@/utils/functions/emailValidation";
+
+// Addresses that are blocked from every list on the compose form
+const SuppressionListDialog = () => {
+  const { addresses, suppress, unsuppress } = useSuppressionStore();
+  const [input, setInput] = useState("");
+
+  const handleAdd = () => {
+    const { accepted, rejected } = checkAddresses(splitAddresses(input), {
+      existing: addresses,
+    });
+    if (accepted.length > 0) {
+      suppress(accepted);
+      toast.success(`Suppressed ${accepted.length} addresses`);
+    }
+    rejected.forEach(({ token, reason }) =>
+      toast.error(`Skipped ${token}: ${reason}`),
+    );
+    setInput("");
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" size="sm">
+          <Ban className="h-4 w-4 mr-2" />
+          Suppressed ({addresses.length})
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Suppression List</DialogTitle>
+          <DialogDescription>
+            These addresses are never emailed, e.g. people who asked not to be
+            contacted again. The list is stored in this browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Textarea
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="Paste addresses separated by commas or new lines"
+          />
+          <Button
+            type="button"
+            size="sm"
+            onClick={handleAdd}
+            disabled={!input.trim()}
+          >
+            Add
+          </Button>
+        </div>
+
+        {addresses.length > 0 && (
+          <ul className="rounded-md border divide-y">
+            {addresses.map((address) => (
+              <li
+                key={address}
+                className="flex items-center justify-between px-3 py-1 text-sm"
+              >
+                {address}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => unsuppress(address)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SuppressionListDialog;
@@ -0,0 +1,193 @@
+import React, { useState, useEffect, useRef } from "react";
+import { AlertTriangle, X } from "lucide-react";
+import useSuppressionStore from "@/store/useSuppressionStore";
+import {
+  checkAddresses,
+  isRoleAddress,
+  splitAddresses,
+  suggestDomainFix,
+  type RejectedAddress,
+} from "@/utils/functions/emailValidation";
+
+interface TagInputProps {
+  value: string[];
+  onChange: (value: string[]) => void;
+  error?: boolean;
+  disabled?: boolean;
+  placeholder?: string;
+  /** Addresses already used in another list; these are not added again */
+  exclude?: string[];
+  /** Called when a tag is swapped for its suggested fix */
+  onReplace?: (from: string, to: string) => void;
+}
+
+// Tag Input Component with improved email handling
+const TagInput = ({
+  value,
+  onChange,
+  error,
+  disabled,
+  placeholder = "recipient@gmail.com, recipient2@company.com",
+  exclude = [],
+  onReplace,
+}: TagInputProps) => {
+  const [inputValue, setInputValue] = useState("");
+  const [tags, setTags] = useState<string[]>(value || []);
+  const [rejected, setRejected] = useState<RejectedAddress[]>([]);
+  const suppressed = useSuppressionStore((state) => state.addresses);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setTags(value || []);
+  }, [value]);
+
+  // Adds every token that passes validation and reports the rest
+  const addTags = (tokens: string[]) => {
+    const { accepted, rejected } = checkAddresses(tokens, {
+      existing: [...tags, ...exclude],
+      suppressed,
+    });
+    setRejected(rejected);
+    if (accepted.length > 0) {
+      const newTags = [...tags, ...accepted];
+      setTags(newTags);
+      onChange(newTags);
+    }
+    // Keep a single rejected token in the box so it can be corrected
+    setInputValue(
+      tokens.length === 1 && rejected.length === 1 ? tokens[0] : "",
+    );
+  };
+
+  const addTag = (email: string) => {
+    if (email.trim()) addTags([email.trim()]);
+  };
+
+  // The fixed address is checked like a new one, against every other tag
+  const replaceTag = (index: number, email: string) => {
+    const { accepted, rejected } = checkAddresses([email], {
+      existing: [...tags.filter((_, i) => i !== index), ...exclude],
+      suppressed,
+    });
+    setRejected(rejected);
+    if (accepted.length === 0) return;
+    const newTags = tags.map((tag, i) => (i === index ? accepted[0] : tag));
+    setTags(newTags);
+    onChange(newTags);
+    onReplace?.(tags[index], accepted[0]);
+  };
+
+  const removeTag = (indexToRemove: number) => {
+    const newTags = tags.filter((_, index) => index !== indexToRemove);
+    setTags(newTags);
+    onChange(newTags);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === "," || e.key === " ") {
+      e.preventDefault();
+      addTag(inputValue);
+    } else if (e.key === "Backspace" && !inputValue && tags.length > 0) {
+      removeTag(tags.length - 1);
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    e.preventDefault();
+    addTags(splitAddresses(e.clipboardData.getData("text")));
+  };
+
+  const handleBlur = () => {
+    if (inputValue.trim()) {
+      addTag(inputValue);
+    }
+  };
+
+  return (
+    <div>
+      <div
+        className={`min-h-[42px] w-full rounded-md border ${
+          error ? "border-red-500" : "border-input"
+        } bg-background px-3 py-2 text-sm cursor-text flex flex-wrap gap-2 items-center ${
+          disabled ? "bg-gray-100 cursor-not-allowed" : ""
+        }`}
+        onClick={() => !disabled && inputRef.current?.focus()}
+      >
+        {tags.map((tag, index) => {
+          const suggestion = suggestDomainFix(tag);
+          const warning = suggestion
+            ? `Did you mean ${suggestion}? Click to fix.`
+            : isRoleAddress(tag)
+              ? "Role address; it may not reach a person"
+              : "";
+          return (
+            <span
+              key={index}
+              title={warning}
+              className={`inline-flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium ${
+                warning
+                  ? "bg-amber-100 text-amber-900 border border-amber-300"
+                  : "bg-primary text-primary-foreground"
+              }`}
+            >
+              {warning && (
+                <button
+                  type="button"
+                  disabled={!suggestion || disabled}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    if (suggestion) replaceTag(index, suggestion);
+                  }}
+                >
+                  <AlertTriangle className="h-3 w-3" />
+                </button>
+              )}
+              {tag}
+              {!disabled && (
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    removeTag(index);
+                  }}
+                  className="hover:bg-primary/80 rounded-full p-0.5"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              )}
+            </span>
+          );
+        })}
+        {!disabled && (
+          <input
+            ref={inputRef}
+            type="text"
+            value={inputValue}
+            onChange={(e) => setInputValue(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onPaste={handlePaste}
+            onBlur={handleBlur}
+            placeholder={tags.length === 0 ? placeholder : ""}
+            className="flex-1 min-w-[120px] outline-none bg-transparent"
+          />
+        )}
+      </div>
+      {rejected.length > 0 && (
+        <div className="mt-1 flex items-start justify-between gap-2 text-xs text-red-500">
+          <ul>
+            {rejected.map((item, index) => (
+              <li key={index}>
+                Skipped {item.token}: {item.reason}
+              </li>
+            ))}
+          </ul>
+          <button type="button" onClick={() => setRejected([])}>
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
@@ -0,0 +1,214 @@
+import { useEffect, useState } from "react";
+import { History, RotateCcw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import type { EmailTemplate, TemplateVersion } from "@/store/useTemplateStore";
+import { htmlToPlainText } from "@/utils/functions/emailHtml";
+import { diffWords, type DiffKind } from "@/utils/functions/wordDiff";
+
+interface TemplateHistorySheetProps {
+  template: EmailTemplate;
+  disabled?: boolean;
+  onRestore: (version: TemplateVersion) => void;
+}
+
+const DIFF_STYLES: Record<DiffKind, string> = {
+  same: "",
+  removed: "bg-red-100 text-red-800 line-through dark:bg-red-950/40",
+  added: "bg-green-100 text-green-800 dark:bg-green-950/40",
+};
+
+const versionLabel = (version: TemplateVersion, index: number) =>
+  `v${index + 1} · ${new Date(version.savedAt).toLocaleString()}`;
+
+// One side of a side-by-side diff: the older side hides additions and the
+// newer side hides removals
+const DiffColumn = ({
+  before,
+  after,
+  side,
+}: {
+  before: string;
+  after: string;
+  side: "before" | "after";
+}) => (
+  <p className="whitespace-pre-wrap break-words rounded-md border p-3 text-sm">
+    {diffWords(before, after)
+      .filter(({ kind }) => kind !== (side === "before" ? "added" : "removed"))
+      .map(({ kind, text }, index) => (
+        <span key={index} className={DIFF_STYLES[kind]}>
+          {text}
+        </span>
+      ))}
+  </p>
+);
+
+// Saved versions of the active template, two of them compared word by word,
+// with a restore button on each
+const TemplateHistorySheet = ({
+  template,
+  disabled,
+  onRestore,
+}: TemplateHistorySheetProps) => {
+  const [open, setOpen] = useState(false);
+  const { versions } = template;
+  const [beforeId, setBeforeId] = useState("");
+  const [afterId, setAfterId] = useState("");
+
+  // Compare the latest save with the one before it each time it opens
+  useEffect(() => {
+    if (!open) return;
+    setAfterId(versions[versions.length - 1]?.id ?? "");
+    setBeforeId(versions[Math.max(versions.length - 2, 0)]?.id ?? "");
+  }, [open, template.id]);
+
+  const before = versions.find((version) => version.id === beforeId);
+  const after = versions.find((version) => version.id === afterId);
+  const current = versions[versions.length - 1];
+
+  const versionPicker = (
+    id: string,
+    value: string,
+    onChange: (value: string) => void,
+  ) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id} className="w-full">
+        <SelectValue placeholder="Pick a version" />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((version, index) => (
+          <SelectItem key={version.id} value={version.id}>
+            {versionLabel(version, index)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button type="button" variant="outline" size="sm" disabled={disabled}>
+          <History className="h-4 w-4 mr-2" />
+          History
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-3xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>{template.name} history</SheetTitle>
+          <SheetDescription>
+            Every save keeps a version. Compare any two, or restore one as the
+            template's current content.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-6 px-4 pb-4">
+          {versions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No saved versions yet. Edit the template and click Save to start
+              its history.
+            </p>
+          ) : (
+            <>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="before-version">Before</Label>
+                  {versionPicker("before-version", beforeId, setBeforeId)}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="after-version">After</Label>
+                  {versionPicker("after-version", afterId, setAfterId)}
+                </div>
+              </div>
+
+              {before && after && (
+                <div className="space-y-4">
+                  {(
+                    [
+                      ["Subject", before.subject, after.subject],
+                      [
+                        "Body",
+                        htmlToPlainText(before.body),
+                        htmlToPlainText(after.body),
+                      ],
+                    ] as const
+                  ).map(([label, beforeText, afterText]) => (
+                    <div key={label} className="space-y-2">
+                      <p className="text-sm font-semibold">{label}</p>
+                      <div className="grid gap-4 sm:grid-cols-2">
+                        <DiffColumn
+                          before={beforeText}
+                          after={afterText}
+                          side="before"
+                        />
+                        <DiffColumn
+                          before={beforeText}
+                          after={afterText}
+                          side="after"
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <ul className="divide-y rounded-md border">
+                {versions
+                  .map((version, index) => ({ version, index }))
+                  .reverse()
+                  .map(({ version, index }) => (
+                    <li
+                      key={version.id}
+                      className="flex items-center justify-between gap-2 px-3 py-2"
+                    >
+                      <div className="min-w-0">
+                        <p className="flex items-center gap-2 text-sm">
+                          {versionLabel(version, index)}
+                          {version.id === current.id && <Badge>Current</Badge>}
+                        </p>
+                        <p className="truncate text-xs text-muted-foreground">
+                          {version.subject || "No subject"}
+                        </p>
+                      </div>
+                      {version.id !== current.id && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            onRestore(version);
+                            setOpen(false);
+                          }}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                          Restore
+                        </Button>
+                      )}
+                    </li>
+                  ))}
+              </ul>
+            </>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default TemplateHistorySheet;
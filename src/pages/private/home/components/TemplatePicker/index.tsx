@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { Copy, MoreVertical, Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import useTemplateStore from "@/store/useTemplateStore";
+
+type NameDialogMode = "create" | "rename" | null;
+
+// Template select with create, rename, duplicate and delete actions
+const TemplatePicker = ({ disabled }: { disabled?: boolean }) => {
+  const {
+    templates,
+    activeTemplateId,
+    setActiveTemplate,
+    createTemplate,
+    renameTemplate,
+    duplicateTemplate,
+    deleteTemplate,
+  } = useTemplateStore();
+  const [nameDialog, setNameDialog] = useState<NameDialogMode>(null);
+  const [name, setName] = useState("");
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const activeTemplate = templates.find(
+    (template) => template.id === activeTemplateId,
+  );
+
+  const openNameDialog = (mode: NameDialogMode) => {
+    setName(mode === "rename" ? activeTemplate?.name || "" : "");
+    setNameDialog(mode);
+  };
+
+  const handleNameSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmedName = name.trim();
+    if (!trimmedName) return;
+
+    if (nameDialog === "create") {
+      createTemplate(trimmedName);
+    } else {
+      renameTemplate(activeTemplateId, trimmedName);
+    }
+    setNameDialog(null);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select
+        value={activeTemplateId}
+        onValueChange={setActiveTemplate}
+        disabled={disabled}
+      >
+        <SelectTrigger className="flex-1">
+          <SelectValue placeholder="Select a template" />
+        </SelectTrigger>
+        <SelectContent>
+          {templates.map((template) => (
+            <SelectItem key={template.id} value={template.id}>
+              {template.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            disabled={disabled}
+          >
+            <MoreVertical className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => openNameDialog("create")}>
+            <Plus className="h-4 w-4" />
+            New Template
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => openNameDialog("rename")}>
+            <Pencil className="h-4 w-4" />
+            Rename
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => duplicateTemplate(activeTemplateId)}>
+            <Copy className="h-4 w-4" />
+            Duplicate
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            className="text-red-500"
+            disabled={templates.length <= 1}
+            onClick={() => setConfirmDelete(true)}
+          >
+            <Trash2 className="h-4 w-4" />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog
+        open={nameDialog !== null}
+        onOpenChange={(open) => !open && setNameDialog(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {nameDialog === "create" ? "New Template" : "Rename Template"}
+            </DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleNameSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="templateName">Name</Label>
+              <Input
+                id="templateName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                autoFocus
+              />
+            </div>
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline">
+                  Cancel
+                </Button>
+              </DialogClose>
+              <Button type="submit" disabled={!name.trim()}>
+                {nameDialog === "create" ? "Create" : "Rename"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Delete "{activeTemplate?.name}"?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              This action cannot be undone. The template and its default
+              attachments will be removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-500 text-white duration-300 hover:bg-red-600"
+              onClick={() => deleteTemplate(activeTemplateId)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default TemplatePicker;
@@ -0,0 +1,16 @@
+import { useEffect, useState } from "react";
+
+// Seconds left in a send's undo window, shown inside its toast
+const UndoCountdown = ({ until }: { until: number }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  const seconds = Math.max(Math.ceil((until - now) / 1000), 0);
+  return <>Sending in {seconds}s</>;
+};
+
+export default UndoCountdown;
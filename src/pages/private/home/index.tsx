@@ -1,42 +1,314 @@
-import React, { useState, useEffect, useRef } from "react";
+import { useState, useEffect } from "react";
 import { useForm, Controller } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { v4 as uuidv4 } from "uuid";
+import { useNetworkState } from "@uidotdev/usehooks";
+import { toast } from "sonner";
 import * as z from "zod";
-import { useMutation } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
+import { Form } from "@/components/ui/form";
+import RichTextEditor from "@/components/RichTextEditor";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import SelectFormField from "@/components/FormElements/SelectFormField";
+import DatePickerFormField from "@/components/FormElements/DatePickerFormField";
+import TimePickerFormField from "@/components/FormElements/TimePickerFormField";
+import { ScheduleEmailAPI, SendEmailAPI } from "@/services/api";
 import { Card, CardContent, CardFooter } from "@/components/ui/card";
-import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Loader2, CheckCircle2, XCircle, X, Edit2, Save } from "lucide-react";
-import { SendEmailAPI } from "@/services/api";
+import { Loader2, Edit2, FlaskConical, Save } from "lucide-react";
+import { Link } from "react-router";
+import routePath from "@/router/routePath";
+import useAccountStore from "@/store/useAccountStore";
+import useAttachmentStore, { getTotalSize } from "@/store/useAttachmentStore";
 import useAuthStore from "@/store/useAuthStore";
+import useSendQueueStore from "@/store/useSendQueueStore";
+import useSendQuotaStore, { getResumeAt } from "@/store/useSendQuotaStore";
+import useSequenceStore from "@/store/useSequenceStore";
+import useSignatureStore, { type Signature } from "@/store/useSignatureStore";
+import useSuppressionStore from "@/store/useSuppressionStore";
+import useTemplateStore, {
+  type TemplateContent,
+  type TemplateVersion,
+} from "@/store/useTemplateStore";
+import { gmailAttachmentLimit } from "@/utils/constants";
+import { buildEmailFormData } from "@/utils/functions/buildEmailFormData";
+import {
+  BUILT_IN_FIELDS,
+  extractMergeFields,
+  getMissingFields,
+  getRecipientMergeData,
+  moveMergeData,
+  type MergeData,
+} from "@/utils/functions/mergeFields";
+import {
+  DEFAULT_AB_TEST,
+  getVariants,
+  splitRecipients,
+  variantLabel,
+} from "@/utils/functions/abTest";
+import { lintContent } from "@/utils/functions/contentLint";
+import { htmlToPlainText, toEmailHtml } from "@/utils/functions/emailHtml";
+import {
+  queueMessages,
+  renderMessages,
+} from "@/utils/functions/renderMessages";
+import { appendSignature } from "@/utils/functions/signatures";
+import { toDateTime } from "@/utils/functions/mergeDateAndTime";
+import { parseSendError } from "@/utils/functions/sendErrors";
+import showErrorAlert from "@/utils/functions/showErrorAlert";
+import ABTestFields from "./components/ABTestFields";
+import AttachmentManager from "./components/AttachmentManager";
+import ContentWarnings from "./components/ContentWarnings";
+import MergeDataEditor from "./components/MergeDataEditor";
+import ImportRecipientsDialog from "./components/ImportRecipientsDialog";
+import MessagePreview from "./components/MessagePreview";
+import RecipientSummaryDialog from "./components/RecipientSummaryDialog";
+import SendProgress from "./components/SendProgress";
+import SuppressionListDialog from "./components/SuppressionListDialog";
+import TagInput from "./components/TagInput";
+import TemplateHistorySheet from "./components/TemplateHistorySheet";
+import TemplatePicker from "./components/TemplatePicker";
+import UndoCountdown from "./components/UndoCountdown";
 
-// Email validation helper
-const isValidEmail = (email: string) => {
-  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim());
+const ADDRESS_LISTS = {
+  recipients: "To",
+  cc: "Cc",
+  bcc: "Bcc",
+  replyTo: "Reply-To",
+} as const;
+
+type AddressList = keyof typeof ADDRESS_LISTS;
+
+const NO_SEQUENCE = "none";
+
+// Signature choices besides another account's address
+const ACCOUNT_SIGNATURE = "account";
+const NO_SIGNATURE = "none";
+
+// The sender's own signature, another saved one, or none
+const pickSignature = (
+  signatures: Signature[],
+  from: string,
+  choice: string,
+) => {
+  if (choice === NO_SIGNATURE) return undefined;
+  const email = (choice === ACCOUNT_SIGNATURE ? from : choice).toLowerCase();
+  return signatures.find((signature) => signature.email === email);
 };
 
 // Zod Schema
-const formSchema = z.object({
-  recipients: z
-    .array(z.string().email())
-    .min(1, "At least one recipient is required"),
-  subject: z.string().min(1, "Subject is required"),
-  body: z.string().min(10, "Body must be at least 10 characters"),
-  resume: z.any().optional(),
-});
-
-type FormData = z.infer<typeof formSchema>;
-
-// Persistent storage using localStorage
+const formSchema = z
+  .object({
+    from: z.string().min(1, "Add a sender account first"),
+    recipients: z
+      .array(z.string().email())
+      .min(1, "At least one recipient is required"),
+    recipientData: z.record(z.string(), z.record(z.string(), z.string())),
+    cc: z.array(z.string().email()),
+    bcc: z.array(z.string().email()),
+    replyTo: z.array(z.string().email()),
+    subject: z.string().min(1, "Subject is required"),
+    body: z
+      .string()
+      .refine(
+        (body) => htmlToPlainText(body).length >= 10,
+        "Body must be at least 10 characters",
+      ),
+    attachmentIds: z.array(z.string()),
+    sendLater: z.boolean(),
+    /** Follow-up sequence to enroll every recipient in, or "none" */
+    sequenceId: z.string(),
+    /** "account", "none", or the address whose signature to use instead */
+    signature: z.string(),
+    /** Subject/body variants to split the recipients between */
+    abTest: z.object({
+      enabled: z.boolean(),
+      name: z.string(),
+      split: z.enum(["random", "ratio"]),
+      weight: z.number({ message: "Enter a ratio" }),
+      variants: z.array(
+        z.object({
+          id: z.string(),
+          subject: z.string(),
+          body: z.string(),
+          weight: z.number({ message: "Enter a ratio" }),
+        }),
+      ),
+    }),
+    scheduleDate: z.date().optional(),
+    scheduleTime: z.string().optional(),
+  })
+  .superRefine((data, ctx) => {
+    // An address may only appear once across To, Cc, Bcc and Reply-To, and
+    // never when it is on the suppression list
+    if (data.from && !useAccountStore.getState().getAccountByEmail(data.from)) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["from"],
+        message: "This account has been removed",
+      });
+    }
+
+    const suppressed = useSuppressionStore.getState().addresses;
+    const seen = new Map<string, AddressList>();
+    (Object.keys(ADDRESS_LISTS) as AddressList[]).forEach((list) => {
+      data[list].forEach((address) => {
+        const first = seen.get(address.toLowerCase());
+        if (suppressed.includes(address.toLowerCase())) {
+          ctx.addIssue({
+            code: "custom",
+            path: [list],
+            message: `${address} is on the suppression list`,
+          });
+        } else if (first) {
+          ctx.addIssue({
+            code: "custom",
+            path: [list],
+            message: `${address} is already in ${ADDRESS_LISTS[first]}`,
+          });
+        } else {
+          seen.set(address.toLowerCase(), list);
+        }
+      });
+    });
+
+    if (data.sendLater && data.sequenceId !== NO_SEQUENCE) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["sequenceId"],
+        message: "Follow-up sequences start from an email sent now",
+      });
+    }
+
+    if (data.abTest.enabled) {
+      const test = data.abTest;
+      if (data.sendLater) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["abTest", "enabled"],
+          message: "A/B tests are sent now, not scheduled",
+        });
+      }
+      if (!test.name.trim()) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["abTest", "name"],
+          message: "Name the test so you can find its results",
+        });
+      }
+      if (test.variants.length === 0) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["abTest", "variants"],
+          message: "Add at least one variant to compare against",
+        });
+      }
+      test.variants.forEach((variant, index) => {
+        if (!variant.subject.trim() && !htmlToPlainText(variant.body).trim()) {
+          ctx.addIssue({
+            code: "custom",
+            path: ["abTest", "variants", index, "subject"],
+            message: `Give variant ${variantLabel(index + 1)} its own subject or body`,
+          });
+        }
+      });
+      const weights = [
+        test.weight,
+        ...test.variants.map(({ weight }) => weight),
+      ];
+      if (test.split === "ratio" && weights.some((weight) => !(weight > 0))) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["abTest", "weight"],
+          message: "Ratios must be greater than 0",
+        });
+      }
+    }
+
+    if (data.sendLater) {
+      const sendAt =
+        data.scheduleDate && data.scheduleTime
+          ? toDateTime(data.scheduleDate, data.scheduleTime)
+          : null;
+      if (!sendAt || sendAt <= new Date()) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["scheduleTime"],
+          message: sendAt
+            ? "Pick a time in the future"
+            : "Pick a date and time to send at",
+        });
+      }
+    }
+
+    const { attachments } = useAttachmentStore.getState();
+    if (getTotalSize(attachments, data.attachmentIds) > gmailAttachmentLimit) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["attachmentIds"],
+        message: "Attachments exceed Gmail's 25 MB limit",
+      });
+    }
+
+    // Every recipient needs a value for each placeholder without a fallback,
+    // in whichever variant or follow-up they might get
+    const fields = extractMergeFields(...getMergeTemplates(data));
+    data.recipients.forEach((email) => {
+      const missing = getMissingFields(
+        fields,
+        getRecipientMergeData(email, data.recipientData[email]),
+      );
+      if (missing.length > 0) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["recipientData", email],
+          message: `${email} is missing ${missing.join(", ")}`,
+        });
+      }
+    });
+  });
+
+type FormValues = z.infer<typeof formSchema>;
+
+// Subject and body of every variant that may be sent, A first
+function getContents(
+  data: Pick<FormValues, "subject" | "body" | "abTest">,
+): { subject: string; body: string; weight: number }[] {
+  const base = { subject: data.subject, body: data.body };
+  return data.abTest.enabled
+    ? getVariants(data.abTest, base)
+    : [{ ...base, weight: 1 }];
+}
+
+// Subjects and bodies a recipient may be sent: every variant, then the
+// follow-ups of the chosen sequence, which reuse the same merge data
+function getMergeTemplates(
+  data: Pick<FormValues, "subject" | "body" | "abTest" | "sequenceId">,
+): string[] {
+  const { sequences } = useSequenceStore.getState();
+  const { templates } = useTemplateStore.getState();
+  const steps = sequences.find(({ id }) => id === data.sequenceId)?.steps ?? [];
+  return [
+    ...getContents(data).flatMap(({ subject, body }) => [subject, body]),
+    ...steps.flatMap((step) => {
+      const template = templates.find(({ id }) => id === step.templateId);
+      return template ? [template.subject, template.body] : [];
+    }),
+  ];
+}
+
+// Persistent draft of the recipient list; subject/body live in templates
 const STORAGE_KEY = "email-form-data";
 
-const getStoredData = (): Partial<FormData> & {
-  resumeData?: string;
-  resumeName?: string;
-} => {
+type StoredDraft = Pick<
+  FormValues,
+  "recipients" | "recipientData" | "cc" | "bcc" | "replyTo"
+>;
+
+const getStoredData = (): Partial<StoredDraft> => {
   if (typeof window === "undefined") return {};
   try {
     const stored = localStorage.getItem(STORAGE_KEY);
@@ -46,7 +318,7 @@ const getStoredData = (): Partial<FormData> & {
   }
 };
 
-const setStoredData = (data: any) => {
+const setStoredData = (data: StoredDraft) => {
   if (typeof window === "undefined") return;
   try {
     localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
@@ -55,6 +327,18 @@ const setStoredData = (data: any) => {
   }
 };
 
+// The batch this form last queued, so its progress survives a reload
+const BATCH_KEY = "compose-batch-id";
+
+const storeBatchId = (batchId: string | null) => {
+  try {
+    if (batchId) localStorage.setItem(BATCH_KEY, batchId);
+    else localStorage.removeItem(BATCH_KEY);
+  } catch (error) {
+    console.error("Failed to save batch id to localStorage:", error);
+  }
+};
+
 const clearStoredData = () => {
   if (typeof window === "undefined") return;
   try {
@@ -64,133 +348,69 @@ const clearStoredData = () => {
   }
 };
 
-// Tag Input Component with improved email handling
-const TagInput = ({ value, onChange, error, disabled }: any) => {
-  const [inputValue, setInputValue] = useState("");
-  const [tags, setTags] = useState<string[]>(value || []);
-  const inputRef = useRef<HTMLInputElement>(null);
-
-  useEffect(() => {
-    setTags(value || []);
-  }, [value]);
-
-  const addTag = (email: string) => {
-    const trimmedEmail = email.trim();
-    if (
-      trimmedEmail &&
-      isValidEmail(trimmedEmail) &&
-      !tags.includes(trimmedEmail)
-    ) {
-      const newTags = [...tags, trimmedEmail];
-      setTags(newTags);
-      onChange(newTags);
-      setInputValue("");
-    }
-  };
-
-  const removeTag = (indexToRemove: number) => {
-    const newTags = tags.filter((_, index) => index !== indexToRemove);
-    setTags(newTags);
-    onChange(newTags);
-  };
-
-  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === "Enter" || e.key === "," || e.key === " ") {
-      e.preventDefault();
-      addTag(inputValue);
-    } else if (e.key === "Backspace" && !inputValue && tags.length > 0) {
-      removeTag(tags.length - 1);
-    }
-  };
-
-  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
-    e.preventDefault();
-    const pastedText = e.clipboardData.getData("text");
-
-    // Improved email parsing - handles multiple emails separated by various delimiters
-    const emails = pastedText
-      .split(/[,\s\n;]+/)
-      .map((email) => email.trim())
-      .filter((email) => email && isValidEmail(email));
-
-    const uniqueEmails = emails.filter((email) => !tags.includes(email));
-
-    if (uniqueEmails.length > 0) {
-      const newTags = [...tags, ...uniqueEmails];
-      setTags(newTags);
-      onChange(newTags);
-      setInputValue("");
-    }
-  };
-
-  const handleBlur = () => {
-    if (inputValue.trim()) {
-      addTag(inputValue);
-    }
+const EmailForm = () => {
+  const { accounts, defaultAccountId } = useAccountStore();
+  const defaultAccount =
+    accounts.find((account) => account.id === defaultAccountId) || accounts[0];
+  const { batches, enqueue, cancelBatch, removeBatch } = useSendQueueStore();
+  // Only the form's own batch is shown; follow-ups and scheduled sends queue
+  // batches of their own
+  const [formBatchId, setFormBatchId] = useState(() =>
+    localStorage.getItem(BATCH_KEY),
+  );
+  const formBatch = batches.find(({ id }) => id === formBatchId);
+  const trackBatch = (id: string | null) => {
+    storeBatchId(id);
+    setFormBatchId(id);
   };
-
-  return (
-    <div>
-      <div
-        className={`min-h-[42px] w-full rounded-md border ${
-          error ? "border-red-500" : "border-input"
-        } bg-background px-3 py-2 text-sm cursor-text flex flex-wrap gap-2 items-center ${
-          disabled ? "bg-gray-100 cursor-not-allowed" : ""
-        }`}
-        onClick={() => !disabled && inputRef.current?.focus()}
-      >
-        {tags.map((tag, index) => (
-          <span
-            key={index}
-            className="inline-flex items-center gap-1 bg-primary text-primary-foreground px-2 py-1 rounded-md text-xs font-medium"
-          >
-            {tag}
-            {!disabled && (
-              <button
-                type="button"
-                onClick={(e) => {
-                  e.stopPropagation();
-                  removeTag(index);
-                }}
-                className="hover:bg-primary/80 rounded-full p-0.5"
-              >
-                <X className="h-3 w-3" />
-              </button>
-            )}
-          </span>
-        ))}
-        {!disabled && (
-          <input
-            ref={inputRef}
-            type="text"
-            value={inputValue}
-            onChange={(e) => setInputValue(e.target.value)}
-            onKeyDown={handleKeyDown}
-            onPaste={handlePaste}
-            onBlur={handleBlur}
-            placeholder={
-              tags.length === 0
-                ? "recipient@gmail.com, recipient2@company.com"
-                : ""
-            }
-            className="flex-1 min-w-[120px] outline-none bg-transparent"
-          />
-        )}
-      </div>
-    </div>
+  // Offline sends wait in the outbox, so another one can be written meanwhile
+  const { online } = useNetworkState();
+  const isSending = Boolean(
+    online &&
+      formBatch?.items.some(
+        (item) => item.status === "pending" || item.status === "sending",
+      ),
   );
-};
-
-const EmailForm = () => {
-  const {
-    data: { email, password },
-  } = useAuthStore();
-  const [refreshKey, setRefreshKey] = useState(0);
-  const [storedFileName, setStoredFileName] = useState<string | null>(null);
+  // The logged-in user's own address, where test sends go
+  const testAddress = useAuthStore((state) => state.data?.email ?? "");
+  const { templates, activeTemplateId, saveTemplate, restoreVersion } =
+    useTemplateStore();
+  const sequences = useSequenceStore((state) => state.sequences);
+  const signatures = useSignatureStore((state) => state.signatures);
+  const activeTemplate =
+    templates.find((template) => template.id === activeTemplateId) ||
+    templates[0];
+  const { attachments } = useAttachmentStore();
+  // A template may still point at files since removed from the library
+  const inLibrary = (ids: string[]) =>
+    ids.filter((id) => attachments.some((attachment) => attachment.id === id));
+  const templateAttachmentIds = inLibrary(activeTemplate.attachmentIds);
   const [isEditing, setIsEditing] = useState(false);
+  const [showCopies, setShowCopies] = useState(false);
+  const [showSummary, setShowSummary] = useState(false);
 
   const storedData = getStoredData();
 
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      from: defaultAccount?.email ?? "",
+      recipients: storedData.recipients || [],
+      recipientData: storedData.recipientData || {},
+      cc: storedData.cc || [],
+      bcc: storedData.bcc || [],
+      replyTo: storedData.replyTo || [],
+      subject: activeTemplate.subject,
+      body: toEmailHtml(activeTemplate.body),
+      attachmentIds: templateAttachmentIds,
+      sendLater: false,
+      sequenceId: NO_SEQUENCE,
+      signature: ACCOUNT_SIGNATURE,
+      abTest: DEFAULT_AB_TEST,
+      scheduleDate: undefined,
+      scheduleTime: "",
+    },
+  });
   const {
     register,
     handleSubmit,
@@ -199,116 +419,343 @@ const EmailForm = () => {
     watch,
     reset,
     setValue,
-  } = useForm<FormData>({
-    resolver: zodResolver(formSchema),
-    defaultValues: {
-      recipients: storedData.recipients || [],
-      subject: storedData.subject || "ReactJS Developer Application",
-      body:
-        storedData.body ||
-        `Dear Hiring Manager,
+  } = form;
 
-I am writing to express my interest in the ReactJS Developer position. 
+  // Load the picked template, or one of its versions, into the form,
+  // dropping unsaved edits
+  const loadTemplate = (content: TemplateContent = activeTemplate) => {
+    setValue("subject", content.subject, { shouldValidate: true });
+    setValue("body", toEmailHtml(content.body), {
+      shouldValidate: true,
+    });
+    setValue("attachmentIds", inLibrary(content.attachmentIds), {
+      shouldValidate: true,
+    });
+    setIsEditing(false);
+  };
 
-With my experience in modern React development and related technologies, I believe I would be a great fit for your team.
+  useEffect(() => {
+    loadTemplate();
+  }, [activeTemplateId]);
 
-Please find my resume attached for your consideration.
+  const formValues = watch();
+
+  // Auto-save recipients to persistent storage
+  useEffect(() => {
+    setStoredData({
+      recipients: formValues.recipients,
+      recipientData: formValues.recipientData,
+      cc: formValues.cc,
+      bcc: formValues.bcc,
+      replyTo: formValues.replyTo,
+    });
+  }, [
+    formValues.recipients,
+    formValues.recipientData,
+    formValues.cc,
+    formValues.bcc,
+    formValues.replyTo,
+  ]);
+
+  // Addresses used in every list except the given one
+  const usedElsewhere = (list: AddressList) =>
+    (Object.keys(ADDRESS_LISTS) as AddressList[])
+      .filter((other) => other !== list)
+      .flatMap((other) => formValues[other]);
+
+  const hasCopies =
+    formValues.cc.length > 0 ||
+    formValues.bcc.length > 0 ||
+    formValues.replyTo.length > 0;
 
-Best regards,
-[Your Name]`,
-      resume: undefined,
+  // Placeholders used in the subject/body of any variant or follow-up, minus
+  // the ones filled in for us
+  const mergeFields = extractMergeFields(
+    ...getMergeTemplates(formValues),
+  ).filter((field) => !BUILT_IN_FIELDS.includes(field.name));
+
+  const missingMergeData = Object.fromEntries(
+    formValues.recipients.map((recipient) => [
+      recipient,
+      getMissingFields(
+        mergeFields,
+        getRecipientMergeData(recipient, formValues.recipientData[recipient]),
+      ),
+    ]),
+  );
+
+  const handleImportRecipients = (
+    recipients: string[],
+    data: Record<string, MergeData>,
+  ) => {
+    // Rows for addresses already listed are keyed by the listed casing
+    const listed = new Map(
+      formValues.recipients.map((recipient) => [
+        recipient.toLowerCase(),
+        recipient,
+      ]),
+    );
+    setValue(
+      "recipients",
+      [
+        ...formValues.recipients,
+        ...recipients.filter(
+          (recipient) => !listed.has(recipient.toLowerCase()),
+        ),
+      ],
+      { shouldValidate: true },
+    );
+    setValue("recipientData", {
+      ...formValues.recipientData,
+      ...Object.fromEntries(
+        Object.entries(data).map(([recipient, row]) => [
+          listed.get(recipient.toLowerCase()) ?? recipient,
+          row,
+        ]),
+      ),
+    });
+  };
+
+  // The body as it will be sent, signature included
+  const signedBody = appendSignature(
+    formValues.body,
+    pickSignature(signatures, formValues.from, formValues.signature),
+  );
+
+  // Spam-trigger and style hints; advisory only
+  const contentLint = lintContent(formValues.subject, signedBody);
+  const contentWarningCount =
+    contentLint.subject.length + contentLint.body.length;
+
+  const isOverAttachmentLimit =
+    getTotalSize(attachments, formValues.attachmentIds) > gmailAttachmentLimit;
+
+  const queryClient = useQueryClient();
+  const scheduleMutation = useMutation({
+    mutationFn: ScheduleEmailAPI,
+    onSuccess: (_, { sendAt }) => {
+      toast.success(`Scheduled for ${new Date(sendAt).toLocaleString()}`);
+      queryClient.invalidateQueries({ queryKey: ["GetScheduledEmailsAPI"] });
+      setValue("sendLater", false);
+      setValue("scheduleDate", undefined);
+      setValue("scheduleTime", "");
+    },
+    onError: (error: Error & { response?: { data: unknown } }) => {
+      showErrorAlert(error.response?.data ?? error);
     },
   });
 
-  // Load stored resume on mount
-  useEffect(() => {
-    if (storedData.resumeData && storedData.resumeName) {
-      setStoredFileName(storedData.resumeName);
+  // A one-off send to the user's own address, rendered for the first
+  // recipient; it skips the queue, so it stays out of history and the
+  // application tracker
+  const testMutation = useMutation({
+    mutationFn: async (data: FormValues) => {
+      // Gmail still counts it against the daily limit
+      const { sends, settings, recordSend } = useSendQuotaStore.getState();
+      const resumeAt = getResumeAt(sends, data.from, 1, settings.dailyLimit);
+      if (resumeAt) {
+        throw new Error(
+          `${data.from} has reached its limit of ${settings.dailyLimit} recipients in 24 hours. Try again around ${resumeAt.toLocaleTimeString()}.`,
+        );
+      }
+      const [message] = renderMessages({
+        recipients: data.recipients.slice(0, 1),
+        recipientData: data.recipientData,
+        subject: data.subject,
+        body: appendSignature(
+          data.body,
+          pickSignature(signatures, data.from, data.signature),
+        ),
+      });
+      const { getPassword } = useAccountStore.getState();
+      const files = await useAttachmentStore
+        .getState()
+        .getFiles(data.attachmentIds);
+      await SendEmailAPI(
+        buildEmailFormData({
+          email: data.from,
+          password: getPassword(data.from),
+          recipients: [testAddress],
+          subject: `[TEST] ${message.subject}`,
+          body: message.body,
+          html: message.html,
+          attachments: files,
+        }),
+      );
+      recordSend(data.from, 1);
+    },
+    onSuccess: () => {
+      toast.success(`Test sent to ${testAddress}`);
+    },
+    onError: (error) => {
+      toast.error(parseSendError(error).message);
+    },
+  });
+
+  // Withdraws a batch still in its undo window and puts the draft back
+  const handleUndo = (batchId: string, data: FormValues) => {
+    if (!cancelBatch(batchId)) {
+      toast.error("Too late to undo; sending has already started");
+      return;
     }
-  }, []);
+    reset(data);
+    toast.success("Send undone. Your draft is back in the form.");
+  };
 
-  const formValues = watch();
+  // Every recipient gets their own request, rendered with their merge data,
+  // after a hold that lets the whole batch be undone
+  const onSubmit = (data: FormValues) => {
+    const signature = pickSignature(signatures, data.from, data.signature);
+    const content = {
+      recipients: data.recipients,
+      recipientData: data.recipientData,
+      subject: data.subject,
+      body: appendSignature(data.body, signature),
+    };
+    const copies = { cc: data.cc, bcc: data.bcc, replyTo: data.replyTo };
 
-  // Auto-save to persistent storage
-  useEffect(() => {
-    const { recipients, resume, ...dataToStore } = formValues;
-
-    // Store resume data if present
-    if (resume && resume[0]) {
-      const file = resume[0];
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        setStoredData({
-          ...dataToStore,
-          recipients,
-          resumeData: e.target?.result,
-          resumeName: file.name,
-        });
-        setStoredFileName(file.name);
-      };
-      reader.readAsDataURL(file);
-    } else {
-      // Always store current data
-      setStoredData({
-        ...storedData,
-        ...dataToStore,
-        recipients,
+    const sendAt =
+      data.sendLater && data.scheduleDate && data.scheduleTime
+        ? toDateTime(data.scheduleDate, data.scheduleTime)
+        : null;
+    if (sendAt) {
+      scheduleMutation.mutate({
+        ...content,
+        ...copies,
+        from: data.from,
+        attachmentIds: data.attachmentIds,
+        sendAt: sendAt.toISOString(),
       });
+      return;
     }
-  }, [formValues]);
 
-  const mutation = useMutation({
-    mutationFn: SendEmailAPI,
-  });
+    // In an A/B test each recipient gets one variant, picked at random in
+    // proportion to the split, and is tagged with it for the results
+    const variants = getContents(data);
+    const contents = variants.map((variant) => ({
+      subject: variant.subject,
+      body: appendSignature(variant.body, signature),
+    }));
+    const testId = uuidv4();
+    const messages = splitRecipients(
+      data.recipients,
+      variants.map(({ weight }) => weight),
+    )
+      .flatMap((recipients, index) =>
+        queueMessages({
+          recipients,
+          recipientData: data.recipientData,
+          subject: contents[index].subject,
+        }).map((message) => ({
+          ...message,
+          content: index,
+          variant: data.abTest.enabled
+            ? {
+                testId,
+                testName: data.abTest.name.trim(),
+                label: variantLabel(index),
+              }
+            : undefined,
+        })),
+      )
+      .sort(
+        (a, b) =>
+          data.recipients.indexOf(a.recipient) -
+          data.recipients.indexOf(b.recipient),
+      );
 
-  const onSubmit = (data: FormData) => {
-    const formData = new FormData();
-    formData.append("email", email);
-    formData.append("app_password", password);
-    formData.append("recipients", data.recipients.join(","));
-    formData.append("subject", data.subject);
-    formData.append("body", data.body);
-
-    // Use stored resume if no new one is selected
-    if (data.resume && data.resume[0]) {
-      formData.append("resume", data.resume[0]);
-    } else if (storedData.resumeData && storedData.resumeName) {
-      // Convert base64 back to file
-      fetch(storedData.resumeData)
-        .then((res) => res.blob())
-        .then((blob) => {
-          const file = new File([blob], storedData.resumeName, {
-            type: "application/pdf",
-          });
-          formData.append("resume", file);
-          mutation.mutate(formData);
-        });
-      return;
+    // Each recipient becomes a sequence contact that the initial email
+    // belongs to, so follow-ups are scheduled once it is sent
+    const { enroll } = useSequenceStore.getState();
+    const inSequence = data.sequenceId !== NO_SEQUENCE;
+    const { undoSeconds } = useSendQuotaStore.getState().settings;
+    const holdUntil = Date.now() + undoSeconds * 1000;
+    const batchId = enqueue({
+      ...copies,
+      from: data.from,
+      attachmentIds: data.attachmentIds,
+      sequenceStep: inSequence ? 0 : undefined,
+      holdUntil: new Date(holdUntil).toISOString(),
+      contents,
+      items: messages.map((message) => ({
+        ...message,
+        sequenceContactId: inSequence
+          ? enroll({
+              sequenceId: data.sequenceId,
+              recipient: message.recipient,
+              from: data.from,
+              recipientData: data.recipientData[message.recipient] ?? {},
+            })
+          : undefined,
+      })),
+    });
+    trackBatch(batchId);
+    setValue("sequenceId", NO_SEQUENCE);
+    setValue("abTest", DEFAULT_AB_TEST);
+    toast(
+      `Sending to ${data.recipients.length} recipient${data.recipients.length === 1 ? "" : "s"}`,
+      {
+        id: batchId,
+        duration: undoSeconds * 1000,
+        description: <UndoCountdown until={holdUntil} />,
+        action: { label: "Undo", onClick: () => handleUndo(batchId, data) },
+      },
+    );
+    if (!online) {
+      toast.info(
+        "You're offline. The email waits in the outbox until you reconnect.",
+      );
     }
-
-    mutation.mutate(formData);
   };
 
   const handleClearStorage = () => {
     clearStoredData();
-    setStoredFileName(null);
     reset({
+      from: formValues.from,
       recipients: [],
-      subject: "ReactJS Developer Application",
-      body: `Dear Hiring Manager,
-
-I am writing to express my interest in the ReactJS Developer position. 
+      recipientData: {},
+      cc: [],
+      bcc: [],
+      replyTo: [],
+      subject: activeTemplate.subject,
+      body: toEmailHtml(activeTemplate.body),
+      attachmentIds: templateAttachmentIds,
+      sendLater: false,
+      sequenceId: NO_SEQUENCE,
+      signature: ACCOUNT_SIGNATURE,
+      abTest: DEFAULT_AB_TEST,
+      scheduleDate: undefined,
+      scheduleTime: "",
+    });
+    setIsEditing(false);
+  };
 
-With my experience in modern React development and related technologies, I believe I would be a great fit for your team.
+  // Imported values follow the address when a typo is fixed
+  const moveRecipientData = (address: string, suggestion: string) => {
+    setValue(
+      "recipientData",
+      moveMergeData(formValues.recipientData, address, suggestion),
+      { shouldValidate: true },
+    );
+  };
 
-Please find my resume attached for your consideration.
+  const handleFixAddress = (
+    list: AddressList,
+    address: string,
+    suggestion: string,
+  ) => {
+    setValue(
+      list,
+      formValues[list].map((item) => (item === address ? suggestion : item)),
+      { shouldValidate: true },
+    );
+    if (list === "recipients") moveRecipientData(address, suggestion);
+  };
 
-Best regards,
-[Your Name]`,
-      resume: null,
-    });
-    setIsEditing(false);
-    setRefreshKey((prev) => prev + 1);
+  // Re-validate on confirm since fixes in the summary change the lists
+  const handleConfirmSend = () => {
+    setShowSummary(false);
+    handleSubmit(onSubmit)();
   };
 
   const toggleEditing = () => {
@@ -316,184 +763,457 @@ Best regards,
   };
 
   const handleSaveTemplate = () => {
+    const { subject, body, attachmentIds } = formValues;
+    saveTemplate(activeTemplate.id, { subject, body, attachmentIds });
     setIsEditing(false);
-    // Data is already auto-saved, just show confirmation
+    toast.success(`Saved "${activeTemplate.name}"`);
+  };
+
+  const handleRestoreVersion = (version: TemplateVersion) => {
+    const restored = restoreVersion(activeTemplate.id, version.id);
+    if (!restored) return;
+    loadTemplate(restored);
+    toast.success(
+      `Restored "${activeTemplate.name}" to ${new Date(restored.savedAt).toLocaleString()}`,
+    );
   };
 
   return (
     <div className="min-h-screen bg-gradient-to-br py-12 px-4">
-      <div className="max-w-2xl mx-auto">
+      <div className="max-w-6xl mx-auto grid gap-6 lg:grid-cols-2 items-start">
         <Card className="shadow-xl">
           <CardContent>
-            <div className="space-y-6">
-              {/* User Info Display */}
-              <div className="bg-secondary/60 p-4 rounded-lg border border-secondary">
-                <p className="text-sm text-primary">
-                  <span className="font-semibold">Sending from:</span> {email}
-                </p>
-              </div>
-
-              {/* Recipients Field with Tags */}
-              <div className="space-y-2">
-                <div className="flex items-center justify-between">
-                  <Label htmlFor="recipients">Recipients</Label>
+            <Form {...form}>
+              <div className="space-y-6">
+                {/* Sender account */}
+                <div className="space-y-2">
+                  <SelectFormField<FormValues>
+                    name="from"
+                    label="From"
+                    placeholder="Pick an account"
+                    className="w-full"
+                    items={accounts.map((account) => ({
+                      label: account.email,
+                      value: account.email,
+                    }))}
+                  />
+                  <Link
+                    to={routePath.accounts}
+                    className="text-xs text-muted-foreground underline"
+                  >
+                    Manage accounts
+                  </Link>
                 </div>
-                <Controller
-                  name="recipients"
-                  control={control}
-                  render={({ field }) => (
-                    <TagInput
-                      value={field.value}
-                      onChange={field.onChange}
-                      error={errors.recipients}
-                    />
-                  )}
-                />
-                {errors.recipients && (
-                  <p className="text-sm text-red-500">
-                    {errors.recipients.message}
-                  </p>
-                )}
-              </div>
 
-              {/* Subject Field */}
-              <div className="space-y-2">
-                <div className="flex items-center justify-between">
-                  <Label htmlFor="subject">Subject</Label>
-
-                  <div className="flex gap-2">
-                    {!isEditing && (
-                      <Button
-                        type="button"
-                        variant="outline"
-                        size="sm"
-                        onClick={toggleEditing}
-                      >
-                        <Edit2 className="h-4 w-4 mr-2" />
-                        Edit
-                      </Button>
-                    )}
-                    {isEditing && (
-                      <Button
-                        type="button"
-                        size="sm"
-                        onClick={handleSaveTemplate}
-                      >
-                        <Save className="h-4 w-4 mr-2" />
-                        Save
-                      </Button>
+                {/* Recipients Field with Tags */}
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="recipients">Recipients</Label>
+                    <div className="flex gap-2">
+                      <SuppressionListDialog />
+                      <ImportRecipientsDialog
+                        recipients={formValues.recipients}
+                        recipientData={formValues.recipientData}
+                        onImport={handleImportRecipients}
+                      />
+                    </div>
+                  </div>
+                  <Controller
+                    name="recipients"
+                    control={control}
+                    render={({ field }) => (
+                      <TagInput
+                        value={field.value}
+                        onChange={field.onChange}
+                        error={Boolean(errors.recipients)}
+                        exclude={usedElsewhere("recipients")}
+                        onReplace={moveRecipientData}
+                      />
                     )}
+                  />
+                  {errors.recipients && (
+                    <p className="text-sm text-red-500">
+                      {errors.recipients.message}
+                    </p>
+                  )}
+                  {!showCopies && !hasCopies && (
+                    <Button
+                      type="button"
+                      variant="link"
+                      size="sm"
+                      className="px-0"
+                      onClick={() => setShowCopies(true)}
+                    >
+                      Add Cc, Bcc or Reply-To
+                    </Button>
+                  )}
+                </div>
+
+                {/* Cc, Bcc and Reply-To, applied to every message */}
+                {(showCopies || hasCopies) &&
+                  (["cc", "bcc", "replyTo"] as const).map((list) => (
+                    <div key={list} className="space-y-2">
+                      <Label>{ADDRESS_LISTS[list]}</Label>
+                      <Controller
+                        name={list}
+                        control={control}
+                        render={({ field }) => (
+                          <TagInput
+                            value={field.value}
+                            onChange={field.onChange}
+                            error={Boolean(errors[list])}
+                            exclude={usedElsewhere(list)}
+                            placeholder={
+                              list === "replyTo"
+                                ? "replies@company.com"
+                                : "colleague@company.com"
+                            }
+                          />
+                        )}
+                      />
+                      {list !== "replyTo" && (
+                        <p className="text-xs text-muted-foreground">
+                          Gets a single copy, with the first email sent, not one
+                          per recipient.
+                        </p>
+                      )}
+                      {errors[list] && (
+                        <p className="text-sm text-red-500">
+                          {errors[list].message}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+
+                {/* Template Picker */}
+                <div className="space-y-2">
+                  <Label>Template</Label>
+                  <TemplatePicker disabled={isEditing} />
+                </div>
+
+                {/* Subject Field */}
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="subject">Subject</Label>
+
+                    <div className="flex gap-2">
+                      <TemplateHistorySheet
+                        template={activeTemplate}
+                        disabled={isEditing}
+                        onRestore={handleRestoreVersion}
+                      />
+                      {!isEditing && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={toggleEditing}
+                        >
+                          <Edit2 className="h-4 w-4 mr-2" />
+                          Edit
+                        </Button>
+                      )}
+                      {isEditing && (
+                        <>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={() => loadTemplate()}
+                          >
+                            Cancel
+                          </Button>
+                          <Button
+                            type="button"
+                            size="sm"
+                            onClick={handleSaveTemplate}
+                          >
+                            <Save className="h-4 w-4 mr-2" />
+                            Save
+                          </Button>
+                        </>
+                      )}
+                    </div>
                   </div>
+                  <Input
+                    id="subject"
+                    type="text"
+                    placeholder="ReactJS Developer Application"
+                    {...register("subject")}
+                    className={errors.subject ? "border-red-500" : ""}
+                    disabled={!isEditing}
+                  />
+                  {errors.subject && (
+                    <p className="text-sm text-red-500">
+                      {errors.subject.message}
+                    </p>
+                  )}
+                  <ContentWarnings warnings={contentLint.subject} />
                 </div>
-                <Input
-                  id="subject"
-                  type="text"
-                  placeholder="ReactJS Developer Application"
-                  {...register("subject")}
-                  className={errors.subject ? "border-red-500" : ""}
-                  disabled={!isEditing}
-                />
-                {errors.subject && (
-                  <p className="text-sm text-red-500">
-                    {errors.subject.message}
-                  </p>
-                )}
-              </div>
 
-              {/* Body Field */}
-              <div className="space-y-2">
-                <Label htmlFor="body">Email Body</Label>
-                <Textarea
-                  id="body"
+                {/* Body Field */}
+                <RichTextEditor
+                  name="body"
+                  label="Email Body"
                   placeholder="Hi, I'm applying for the ReactJS Developer role..."
-                  rows={8}
-                  {...register("body")}
-                  className={errors.body ? "border-red-500" : ""}
                   disabled={!isEditing}
+                  description={
+                    <>
+                      Personalize with placeholders like {"{{firstName}}"} or{" "}
+                      {"{{company|your team}}"}; {"{{email}}"} is filled in
+                      automatically. A plain-text copy is sent alongside the
+                      formatted version.
+                    </>
+                  }
                 />
-                {errors.body && (
-                  <p className="text-sm text-red-500">{errors.body.message}</p>
-                )}
-              </div>
+                <ContentWarnings warnings={contentLint.body} />
 
-              {/* Resume Upload */}
-              <div className="space-y-2">
-                <Label htmlFor="resume">Resume (PDF)</Label>
-                {storedFileName && (
-                  <div className="bg-green-50 border border-green-200 rounded-md p-2 mb-2 flex items-center justify-between">
-                    <span className="text-sm text-green-800">
-                      Stored: {storedFileName}
-                    </span>
-                    <CheckCircle2 className="h-4 w-4 text-green-600" />
+                {/* Signature override */}
+                {signatures.length > 0 && (
+                  <div className="space-y-1">
+                    <SelectFormField<FormValues>
+                      name="signature"
+                      label="Signature"
+                      className="w-full"
+                      items={[
+                        {
+                          label: "This account's signature",
+                          value: ACCOUNT_SIGNATURE,
+                        },
+                        { label: "No signature", value: NO_SIGNATURE },
+                        ...signatures.map((signature) => ({
+                          label: `Signature of ${signature.email}`,
+                          value: signature.email,
+                        })),
+                      ]}
+                    />
+                    <Link
+                      to={routePath.accounts}
+                      className="text-xs text-muted-foreground underline"
+                    >
+                      Manage signatures
+                    </Link>
                   </div>
                 )}
-                <Input
-                  id="resume"
-                  type="file"
-                  accept=".pdf"
-                  {...register("resume")}
-                  className={errors.resume ? "border-red-500" : ""}
-                  disabled={!isEditing}
-                />
-                {errors.resume && (
-                  <p className="text-sm text-red-500">
-                    {errors.resume.message as string}
-                  </p>
+
+                {/* A/B test variants */}
+                <ABTestFields />
+
+                {/* Merge Data */}
+                {mergeFields.length > 0 && formValues.recipients.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Personalization</Label>
+                    <Controller
+                      name="recipientData"
+                      control={control}
+                      render={({ field }) => (
+                        <MergeDataEditor
+                          recipients={formValues.recipients}
+                          fields={mergeFields}
+                          value={field.value}
+                          onChange={field.onChange}
+                          missing={errors.recipientData ? missingMergeData : {}}
+                        />
+                      )}
+                    />
+                    {errors.recipientData &&
+                      Object.entries(missingMergeData)
+                        .filter(([, missing]) => missing.length > 0)
+                        .map(([recipient, missing]) => (
+                          <p key={recipient} className="text-sm text-red-500">
+                            {recipient} is missing {missing.join(", ")}
+                          </p>
+                        ))}
+                  </div>
                 )}
-              </div>
 
-              {/* Status Messages */}
-              {mutation.isSuccess && (
-                <Alert className="bg-green-50 border-green-200">
-                  <CheckCircle2 className="h-4 w-4 text-green-600" />
-                  <AlertDescription className="text-green-800">
-                    Email sent successfully!
-                  </AlertDescription>
-                </Alert>
-              )}
+                {/* Attachments */}
+                <div className="space-y-2">
+                  <Label>Attachments</Label>
+                  <Controller
+                    name="attachmentIds"
+                    control={control}
+                    render={({ field }) => (
+                      <AttachmentManager
+                        value={field.value}
+                        onChange={field.onChange}
+                        disabled={isSending}
+                      />
+                    )}
+                  />
+                  {errors.attachmentIds && (
+                    <p className="text-sm text-red-500">
+                      {errors.attachmentIds.message}
+                    </p>
+                  )}
+                </div>
 
-              {mutation.isError && (
-                <Alert className="bg-red-50 border-red-200">
-                  <XCircle className="h-4 w-4 text-red-600" />
-                  <AlertDescription className="text-red-800">
-                    Failed to send email. Please try again.
-                  </AlertDescription>
-                </Alert>
-              )}
+                {/* Schedule */}
+                <div className="space-y-3">
+                  <div className="flex items-center gap-2">
+                    <Controller
+                      name="sendLater"
+                      control={control}
+                      render={({ field }) => (
+                        <Switch
+                          id="sendLater"
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                        />
+                      )}
+                    />
+                    <Label htmlFor="sendLater">Send later</Label>
+                  </div>
+                  {formValues.sendLater && (
+                    <div className="flex flex-wrap items-start gap-4">
+                      <DatePickerFormField<FormValues>
+                        name="scheduleDate"
+                        label="Date"
+                        required
+                      />
+                      <TimePickerFormField<FormValues>
+                        name="scheduleTime"
+                        label="Time"
+                        required
+                      />
+                    </div>
+                  )}
+                </div>
 
-              {/* Action Buttons */}
-              <div className="flex gap-3">
-                <Button
-                  type="button"
-                  className="flex-1"
-                  disabled={mutation.isPending}
-                  onClick={handleSubmit(onSubmit)}
-                >
-                  {mutation.isPending ? (
-                    <>
+                {/* Follow-ups */}
+                {sequences.length > 0 && (
+                  <div className="space-y-1">
+                    <SelectFormField<FormValues>
+                      name="sequenceId"
+                      label="Follow-up sequence"
+                      className="w-full"
+                      items={[
+                        { label: "None", value: NO_SEQUENCE },
+                        ...sequences.map((sequence) => ({
+                          label: `${sequence.name} (${sequence.steps.length} follow-ups)`,
+                          value: sequence.id,
+                        })),
+                      ]}
+                    />
+                    <Link
+                      to={routePath.sequences}
+                      className="text-xs text-muted-foreground underline"
+                    >
+                      Manage sequences
+                    </Link>
+                  </div>
+                )}
+
+                {/* Send Progress */}
+                {formBatch && (
+                  <SendProgress
+                    batch={formBatch}
+                    onDismiss={() => {
+                      removeBatch(formBatch.id);
+                      trackBatch(null);
+                    }}
+                  />
+                )}
+
+                {/* Action Buttons */}
+                <div className="flex gap-3">
+                  <Button
+                    type="button"
+                    className="flex-1"
+                    disabled={
+                      isSending ||
+                      isOverAttachmentLimit ||
+                      scheduleMutation.isPending
+                    }
+                    onClick={handleSubmit(() => setShowSummary(true))}
+                  >
+                    {isSending || scheduleMutation.isPending ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        {isSending ? "Sending..." : "Scheduling..."}
+                      </>
+                    ) : (
+                      <>
+                        {formValues.sendLater ? "Schedule Email" : "Send Email"}
+                        {contentWarningCount > 0 && (
+                          <Badge
+                            variant="secondary"
+                            className="ml-2 bg-amber-100 text-amber-800"
+                            title={`Spam score ${contentLint.score}/100`}
+                          >
+                            {contentWarningCount} warning
+                            {contentWarningCount === 1 ? "" : "s"}
+                          </Badge>
+                        )}
+                      </>
+                    )}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    disabled={
+                      !testAddress ||
+                      isOverAttachmentLimit ||
+                      testMutation.isPending
+                    }
+                    title={
+                      testAddress
+                        ? `Send the first recipient's version to ${testAddress}`
+                        : "Your account has no email address"
+                    }
+                    onClick={handleSubmit((data) => testMutation.mutate(data))}
+                  >
+                    {testMutation.isPending ? (
                       <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Sending...
-                    </>
-                  ) : (
-                    "Send Email"
-                  )}
-                </Button>
-                <Button
-                  type="button"
-                  variant="outline"
-                  onClick={handleClearStorage}
-                  disabled={mutation.isPending}
-                >
-                  Clear All Data
-                </Button>
+                    ) : (
+                      <FlaskConical className="mr-2 h-4 w-4" />
+                    )}
+                    Send test
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={handleClearStorage}
+                    disabled={isSending}
+                  >
+                    Clear Recipients
+                  </Button>
+                </div>
               </div>
-            </div>
+            </Form>
+            <RecipientSummaryDialog<AddressList>
+              open={showSummary}
+              onOpenChange={setShowSummary}
+              lists={(Object.keys(ADDRESS_LISTS) as AddressList[]).map(
+                (list) => ({
+                  key: list,
+                  label: ADDRESS_LISTS[list],
+                  addresses: formValues[list],
+                }),
+              )}
+              onFix={handleFixAddress}
+              onConfirm={handleConfirmSend}
+              confirmLabel={formValues.sendLater ? "Schedule" : "Send"}
+            />
           </CardContent>
           <CardFooter className="text-xs text-gray-500 text-center block">
-            Note: All fields including resume are automatically saved to your
-            browser's storage
+            Note: Recipients are saved automatically; attachments are kept in
+            your browser and a template remembers its selection when you click
+            Save
           </CardFooter>
         </Card>
+        <div className="lg:sticky lg:top-4">
+          <MessagePreview
+            from={formValues.from}
+            recipients={formValues.recipients}
+            recipientData={formValues.recipientData}
+            cc={formValues.cc}
+            bcc={formValues.bcc}
+            subject={formValues.subject}
+            body={signedBody}
+            attachmentIds={formValues.attachmentIds}
+          />
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,63 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { CalendarX } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { CancelScheduledEmailAPI } from "@/services/api";
+import type { ScheduledEmail } from "@/types/scheduledEmail";
+import showErrorAlert from "@/utils/functions/showErrorAlert";
+
+// Confirms and cancels a scheduled email before it is sent
+const CancelScheduledEmailDialog = ({ email }: { email: ScheduledEmail }) => {
+  const queryClient = useQueryClient();
+  const mutation = useMutation({
+    mutationFn: CancelScheduledEmailAPI,
+    onSuccess: () => {
+      toast.success("Scheduled email cancelled");
+      queryClient.invalidateQueries({ queryKey: ["GetScheduledEmailsAPI"] });
+    },
+    onError: (error: Error & { response?: { data: unknown } }) => {
+      showErrorAlert(error.response?.data ?? error);
+    },
+  });
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button variant="ghost" size="sm" disabled={mutation.isPending}>
+          <CalendarX className="h-4 w-4 text-red-500" />
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Cancel this scheduled email?</AlertDialogTitle>
+          <AlertDialogDescription>
+            "{email.subject}" will not be sent to {email.recipients.length}{" "}
+            recipient{email.recipients.length === 1 ? "" : "s"}.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Keep</AlertDialogCancel>
+          <AlertDialogAction
+            className="bg-red-500 text-white duration-300 hover:bg-red-600"
+            onClick={() => mutation.mutate(email.id)}
+          >
+            Cancel Email
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default CancelScheduledEmailDialog;
@@ -0,0 +1,171 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import * as z from "zod";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form } from "@/components/ui/form";
+import BasicFormField from "@/components/FormElements/BasicFormField";
+import DatePickerFormField from "@/components/FormElements/DatePickerFormField";
+import TimePickerFormField from "@/components/FormElements/TimePickerFormField";
+import RichTextEditor from "@/components/RichTextEditor";
+import { UpdateScheduledEmailAPI } from "@/services/api";
+import type { ScheduledEmail } from "@/types/scheduledEmail";
+import { htmlToPlainText } from "@/utils/functions/emailHtml";
+import { toDateTime } from "@/utils/functions/mergeDateAndTime";
+import {
+  extractMergeFields,
+  getMissingFields,
+  getRecipientMergeData,
+} from "@/utils/functions/mergeFields";
+import showErrorAlert from "@/utils/functions/showErrorAlert";
+
+const editSchema = z
+  .object({
+    subject: z.string().min(1, "Subject is required"),
+    body: z
+      .string()
+      .refine(
+        (body) => htmlToPlainText(body).length >= 10,
+        "Body must be at least 10 characters",
+      ),
+    scheduleDate: z.date({ message: "Pick a date" }),
+    scheduleTime: z.string().min(1, "Pick a time"),
+  })
+  .superRefine((data, ctx) => {
+    const sendAt = toDateTime(data.scheduleDate, data.scheduleTime);
+    if (sendAt && sendAt <= new Date()) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["scheduleTime"],
+        message: "Pick a time in the future",
+      });
+    }
+  });
+
+type EditValues = z.infer<typeof editSchema>;
+
+interface EditScheduledEmailDialogProps {
+  email: ScheduledEmail | null;
+  onClose: () => void;
+}
+
+// Edits the content of a scheduled email or moves it to another time
+const EditScheduledEmailDialog = ({
+  email,
+  onClose,
+}: EditScheduledEmailDialogProps) => {
+  const queryClient = useQueryClient();
+  const form = useForm<EditValues>({ resolver: zodResolver(editSchema) });
+
+  useEffect(() => {
+    if (!email) return;
+    const sendAt = new Date(email.sendAt);
+    form.reset({
+      subject: email.subject,
+      body: email.body,
+      scheduleDate: sendAt,
+      scheduleTime: format(sendAt, "HH:mm"),
+    });
+  }, [email, form]);
+
+  const mutation = useMutation({
+    mutationFn: UpdateScheduledEmailAPI,
+    onSuccess: () => {
+      toast.success("Scheduled email updated");
+      queryClient.invalidateQueries({ queryKey: ["GetScheduledEmailsAPI"] });
+      onClose();
+    },
+    onError: (error: Error & { response?: { data: unknown } }) => {
+      showErrorAlert(error.response?.data ?? error);
+    },
+  });
+
+  const onSubmit = (data: EditValues) => {
+    const sendAt = toDateTime(data.scheduleDate, data.scheduleTime);
+    if (!email || !sendAt) return;
+
+    // New placeholders must still resolve for every recipient
+    const fields = extractMergeFields(data.subject, data.body);
+    const incomplete = email.recipients.filter(
+      (recipient) =>
+        getMissingFields(
+          fields,
+          getRecipientMergeData(recipient, email.recipientData[recipient]),
+        ).length > 0,
+    );
+    if (incomplete.length > 0) {
+      form.setError("body", {
+        message: `No merge data for ${incomplete.join(", ")}`,
+      });
+      return;
+    }
+
+    mutation.mutate({
+      id: email.id,
+      recipients: email.recipients,
+      recipientData: email.recipientData,
+      subject: data.subject,
+      body: data.body,
+      sendAt: sendAt.toISOString(),
+    });
+  };
+
+  return (
+    <Dialog open={Boolean(email)} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Scheduled Email</DialogTitle>
+          <DialogDescription>
+            To {email?.recipients.join(", ")}
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="flex flex-wrap items-start gap-4">
+              <DatePickerFormField<EditValues>
+                name="scheduleDate"
+                label="Date"
+                required
+              />
+              <TimePickerFormField<EditValues>
+                name="scheduleTime"
+                label="Time"
+                required
+              />
+            </div>
+            <BasicFormField<EditValues> name="subject" label="Subject" />
+            <RichTextEditor name="body" label="Email Body" />
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline">
+                  Close
+                </Button>
+              </DialogClose>
+              <Button type="submit" disabled={mutation.isPending}>
+                {mutation.isPending && (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditScheduledEmailDialog;
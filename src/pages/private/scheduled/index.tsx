@@ -0,0 +1,71 @@
+import { useState } from "react";
+import { Pencil } from "lucide-react";
+import GenericTableComponent from "@/components/GenericTableComponent";
+import { Button } from "@/components/ui/button";
+import { GetScheduledEmailsAPI } from "@/services/api";
+import type { ScheduledEmail } from "@/types/scheduledEmail";
+import { mockScheduler } from "@/utils/constants";
+import CancelScheduledEmailDialog from "./components/CancelScheduledEmailDialog";
+import EditScheduledEmailDialog from "./components/EditScheduledEmailDialog";
+
+const ScheduledPage = () => {
+  const [editing, setEditing] = useState<ScheduledEmail | null>(null);
+
+  const columns = [
+    {
+      header: "Send At",
+      accessorKey: "sendAt",
+      cell: (item: ScheduledEmail) => new Date(item.sendAt).toLocaleString(),
+      csvValue: (value: string) => new Date(value).toLocaleString(),
+    },
+    { header: "From", accessorKey: "from" },
+    {
+      header: "Recipients",
+      accessorKey: "recipients",
+      cell: (item: ScheduledEmail) => item.recipients.join(", "),
+      csvValue: (value: string[]) => value.join("; "),
+    },
+    { header: "Subject", accessorKey: "subject" },
+    {
+      header: "",
+      cell: (item: ScheduledEmail) => (
+        <div className="flex gap-1">
+          <Button variant="ghost" size="sm" onClick={() => setEditing(item)}>
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <CancelScheduledEmailDialog email={item} />
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <div className="min-h-screen">
+      <div className="p-8 space-y-1">
+        <h1 className="text-2xl font-semibold">Scheduled</h1>
+        {mockScheduler && (
+          <p className="text-sm text-muted-foreground">
+            Scheduled emails are kept in this browser and go out while the app
+            is open.
+          </p>
+        )}
+      </div>
+      <div className="mb-24 px-4">
+        <GenericTableComponent
+          apiFn={GetScheduledEmailsAPI}
+          queryKey="GetScheduledEmailsAPI"
+          columns={columns}
+          dataPath="data.items"
+          csvFileName="scheduled-emails"
+          emptyMessage="Nothing scheduled."
+        />
+      </div>
+      <EditScheduledEmailDialog
+        email={editing}
+        onClose={() => setEditing(null)}
+      />
+    </div>
+  );
+};
+
+export default ScheduledPage;
@@ -0,0 +1,128 @@
+import { Paperclip } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import type { SentMessage } from "@/store/useSentHistoryStore";
+
+interface SentMessageDrawerProps {
+  message: SentMessage | null;
+  onClose: () => void;
+}
+
+// The exact rendered message for one history entry
+const SentMessageDrawer = ({ message, onClose }: SentMessageDrawerProps) => (
+  <Sheet open={Boolean(message)} onOpenChange={(open) => !open && onClose()}>
+    <SheetContent className="w-full sm:max-w-2xl overflow-y-auto">
+      {message && (
+        <>
+          <SheetHeader>
+            <SheetTitle>{message.subject}</SheetTitle>
+            <SheetDescription>
+              {new Date(message.sentAt).toLocaleString()}
+            </SheetDescription>
+          </SheetHeader>
+
+          <div className="space-y-4 px-4 pb-4">
+            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+              <dt className="font-semibold">From</dt>
+              <dd>{message.from}</dd>
+              <dt className="font-semibold">To</dt>
+              <dd>{message.recipient}</dd>
+              {message.cc && message.cc.length > 0 && (
+                <>
+                  <dt className="font-semibold">Cc</dt>
+                  <dd>{message.cc.join(", ")}</dd>
+                </>
+              )}
+              {message.bcc && message.bcc.length > 0 && (
+                <>
+                  <dt className="font-semibold">Bcc</dt>
+                  <dd>{message.bcc.join(", ")}</dd>
+                </>
+              )}
+              {message.sequence && (
+                <>
+                  <dt className="font-semibold">Sequence</dt>
+                  <dd>
+                    {message.sequence.name} ·{" "}
+                    {message.sequence.step === 0
+                      ? "Initial email"
+                      : `Follow-up ${message.sequence.step}`}
+                  </dd>
+                </>
+              )}
+              {message.variant && (
+                <>
+                  <dt className="font-semibold">A/B test</dt>
+                  <dd>
+                    {message.variant.testName} · Variant {message.variant.label}
+                    {message.repliedAt
+                      ? " · Replied"
+                      : message.openedAt
+                        ? " · Opened"
+                        : ""}
+                  </dd>
+                </>
+              )}
+              <dt className="font-semibold">Result</dt>
+              <dd>
+                <Badge
+                  variant={
+                    message.status === "sent" ? "secondary" : "destructive"
+                  }
+                >
+                  {message.status === "sent" ? "Sent" : "Failed"}
+                </Badge>
+                {message.error && (
+                  <span className="ml-2 text-red-600">{message.error}</span>
+                )}
+              </dd>
+            </dl>
+
+            {message.attachmentNames.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {message.attachmentNames.map((name) => (
+                  <Badge key={name} variant="outline">
+                    <Paperclip className="h-3 w-3" />
+                    {name}
+                  </Badge>
+                ))}
+              </div>
+            )}
+
+            <Tabs defaultValue={message.html ? "html" : "text"}>
+              <TabsList>
+                {message.html && <TabsTrigger value="html">HTML</TabsTrigger>}
+                <TabsTrigger value="text">Plain text</TabsTrigger>
+              </TabsList>
+              {message.html && (
+                <TabsContent value="html">
+                  {/* Sandboxed so the stored markup cannot run scripts */}
+                  <iframe
+                    title="Rendered message"
+                    sandbox=""
+                    srcDoc={message.html}
+                    className="h-[60vh] w-full rounded-md border bg-white"
+                  />
+                </TabsContent>
+              )}
+              <TabsContent value="text">
+                <pre className="whitespace-pre-wrap rounded-md border p-3 text-sm font-sans">
+                  {message.body}
+                </pre>
+              </TabsContent>
+            </Tabs>
+          </div>
+        </>
+      )}
+    </SheetContent>
+  </Sheet>
+);
+
+export default SentMessageDrawer;
@@ -0,0 +1,181 @@
+import { useEffect, useState } from "react";
+import { useSearchParams } from "react-router";
+import { useQueryClient } from "@tanstack/react-query";
+import { Eye } from "lucide-react";
+import GenericTableComponent from "@/components/GenericTableComponent";
+import SearchBar from "@/components/SearchBar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { GetSentHistoryAPI } from "@/services/api";
+import useAccountStore from "@/store/useAccountStore";
+import useSentHistoryStore, {
+  type SentMessage,
+} from "@/store/useSentHistoryStore";
+import SentMessageDrawer from "./components/SentMessageDrawer";
+
+const SentHistoryPage = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [selected, setSelected] = useState<SentMessage | null>(null);
+  const messages = useSentHistoryStore((state) => state.messages);
+  const accounts = useAccountStore((state) => state.accounts);
+  const queryClient = useQueryClient();
+
+  const filter = searchParams.get("filter") || "";
+  const account = searchParams.get("account") || "";
+  const from = searchParams.get("from") || "";
+  const to = searchParams.get("to") || "";
+
+  // Sends finishing in the background should show up without a reload
+  useEffect(() => {
+    queryClient.invalidateQueries({ queryKey: ["GetSentHistoryAPI"] });
+  }, [messages, queryClient]);
+
+  const handleFilterChange = (
+    name: "account" | "from" | "to",
+    value: string,
+  ) => {
+    const newParams = new URLSearchParams(searchParams);
+    if (value) {
+      newParams.set(name, value);
+    } else {
+      newParams.delete(name);
+    }
+    newParams.set("page", "1");
+    setSearchParams(newParams);
+  };
+
+  const columns = [
+    {
+      header: "Sent",
+      accessorKey: "sentAt",
+      cell: (item: SentMessage) => new Date(item.sentAt).toLocaleString(),
+      csvValue: (value: string) => new Date(value).toLocaleString(),
+    },
+    { header: "From", accessorKey: "from" },
+    { header: "Recipient", accessorKey: "recipient" },
+    { header: "Subject", accessorKey: "subject" },
+    {
+      header: "Attachments",
+      accessorKey: "attachmentNames",
+      cell: (item: SentMessage) => item.attachmentNames.join(", ") || "-",
+      csvValue: (value: string[]) => value.join("; "),
+    },
+    {
+      header: "Sequence",
+      accessorKey: "sequence",
+      cell: (item: SentMessage) =>
+        item.sequence
+          ? `${item.sequence.name} · ${item.sequence.step === 0 ? "Initial" : `Follow-up ${item.sequence.step}`}`
+          : "-",
+      csvValue: (value?: SentMessage["sequence"]) =>
+        value ? `${value.name} (step ${value.step})` : "",
+    },
+    {
+      header: "Variant",
+      accessorKey: "variant",
+      cell: (item: SentMessage) =>
+        item.variant ? `${item.variant.testName} · ${item.variant.label}` : "-",
+      csvValue: (value?: SentMessage["variant"]) =>
+        value ? `${value.testName} (${value.label})` : "",
+    },
+    {
+      header: "Result",
+      accessorKey: "status",
+      cell: (item: SentMessage) => (
+        <Badge variant={item.status === "sent" ? "secondary" : "destructive"}>
+          {item.status === "sent" ? "Sent" : "Failed"}
+        </Badge>
+      ),
+    },
+    {
+      header: "",
+      cell: (item: SentMessage) => (
+        <Button variant="ghost" size="sm" onClick={() => setSelected(item)}>
+          <Eye className="h-4 w-4" />
+        </Button>
+      ),
+    },
+  ];
+
+  return (
+    <div className="min-h-screen">
+      <div className="flex justify-between p-8">
+        <h1 className="text-2xl font-semibold">Sent History</h1>
+        <SearchBar placeholder="Search recipient, sender or subject..." />
+      </div>
+      <div className="mb-24 px-4">
+        <GenericTableComponent
+          apiFn={GetSentHistoryAPI}
+          queryKey="GetSentHistoryAPI"
+          columns={columns}
+          initialFilters={{ filter, account, from, to }}
+          filters={{
+            dates: (
+              <div className="flex flex-wrap gap-4">
+                <div className="space-y-1">
+                  <Label>Account</Label>
+                  <Select
+                    value={account || "all"}
+                    onValueChange={(value) =>
+                      handleFilterChange(
+                        "account",
+                        value === "all" ? "" : value,
+                      )
+                    }
+                  >
+                    <SelectTrigger className="w-[220px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All accounts</SelectItem>
+                      {accounts.map(({ id, email }) => (
+                        <SelectItem key={id} value={email}>
+                          {email}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="from">From</Label>
+                  <Input
+                    id="from"
+                    type="date"
+                    value={from}
+                    max={to || undefined}
+                    onChange={(e) => handleFilterChange("from", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="to">To</Label>
+                  <Input
+                    id="to"
+                    type="date"
+                    value={to}
+                    min={from || undefined}
+                    onChange={(e) => handleFilterChange("to", e.target.value)}
+                  />
+                </div>
+              </div>
+            ),
+          }}
+          dataPath="data.items"
+          csvFileName="sent-history"
+          emptyMessage="Nothing sent yet."
+        />
+      </div>
+      <SentMessageDrawer message={selected} onClose={() => setSelected(null)} />
+    </div>
+  );
+};
+
+export default SentHistoryPage;
@@ -0,0 +1,53 @@
+import { toast } from "sonner";
+import { Trash2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import useSequenceStore, { type Sequence } from "@/store/useSequenceStore";
+
+// Confirms and deletes a sequence together with its contacts
+const DeleteSequenceDialog = ({ sequence }: { sequence: Sequence }) => {
+  const deleteSequence = useSequenceStore((state) => state.deleteSequence);
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button variant="ghost" size="sm">
+          <Trash2 className="h-4 w-4 text-red-500" />
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete "{sequence.name}"?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Its contacts are removed and get no further follow-ups. Emails
+            already sent stay in the sent history.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Keep</AlertDialogCancel>
+          <AlertDialogAction
+            className="bg-red-500 text-white duration-300 hover:bg-red-600"
+            onClick={() => {
+              deleteSequence(sequence.id);
+              toast.success(`Deleted "${sequence.name}"`);
+            }}
+          >
+            Delete
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default DeleteSequenceDialog;
@@ -0,0 +1,57 @@
+import { MailCheck, Pause, Play, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import useSequenceStore, {
+  type SequenceContact,
+} from "@/store/useSequenceStore";
+
+// Row actions for one contact in a sequence
+const SequenceContactActions = ({ contact }: { contact: SequenceContact }) => {
+  const { setContactStatus, removeContact } = useSequenceStore();
+  const canResume = ["paused", "failed"].includes(contact.status);
+  const isOpen = ["active", "paused", "failed"].includes(contact.status);
+
+  return (
+    <div className="flex gap-1">
+      {contact.status === "active" && (
+        <Button
+          variant="ghost"
+          size="sm"
+          title="Pause"
+          onClick={() => setContactStatus(contact.id, "paused")}
+        >
+          <Pause className="h-4 w-4" />
+        </Button>
+      )}
+      {canResume && (
+        <Button
+          variant="ghost"
+          size="sm"
+          title={contact.status === "failed" ? "Retry" : "Resume"}
+          onClick={() => setContactStatus(contact.id, "active")}
+        >
+          <Play className="h-4 w-4" />
+        </Button>
+      )}
+      {isOpen && (
+        <Button
+          variant="ghost"
+          size="sm"
+          title="Mark as replied"
+          onClick={() => setContactStatus(contact.id, "replied")}
+        >
+          <MailCheck className="h-4 w-4 text-green-600" />
+        </Button>
+      )}
+      <Button
+        variant="ghost"
+        size="sm"
+        title="Remove from sequence"
+        onClick={() => removeContact(contact.id)}
+      >
+        <Trash2 className="h-4 w-4 text-red-500" />
+      </Button>
+    </div>
+  );
+};
+
+export default SequenceContactActions;
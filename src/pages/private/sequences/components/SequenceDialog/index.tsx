@@ -0,0 +1,171 @@
+import { useEffect } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import { v4 as uuidv4 } from "uuid";
+import * as z from "zod";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import BasicFormField from "@/components/FormElements/BasicFormField";
+import SelectFormField from "@/components/FormElements/SelectFormField";
+import useSequenceStore, { type Sequence } from "@/store/useSequenceStore";
+import useTemplateStore from "@/store/useTemplateStore";
+
+const sequenceSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  steps: z
+    .array(
+      z.object({
+        id: z.string(),
+        templateId: z.string().min(1, "Pick a template"),
+        delayDays: z
+          .number({ message: "Enter a number of days" })
+          .int()
+          .min(1, "Wait at least a day"),
+      }),
+    )
+    .min(1, "Add at least one follow-up"),
+});
+
+type SequenceValues = z.infer<typeof sequenceSchema>;
+
+interface SequenceDialogProps {
+  open: boolean;
+  /** Sequence to edit; a new one is created when null */
+  sequence: Sequence | null;
+  onClose: () => void;
+}
+
+const newStep = () => ({ id: uuidv4(), templateId: "", delayDays: 3 });
+
+// Creates or edits a sequence's follow-up steps
+const SequenceDialog = ({ open, sequence, onClose }: SequenceDialogProps) => {
+  const saveSequence = useSequenceStore((state) => state.saveSequence);
+  const templates = useTemplateStore((state) => state.templates);
+  const form = useForm<SequenceValues>({
+    resolver: zodResolver(sequenceSchema),
+  });
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: "steps",
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    form.reset(
+      sequence
+        ? { name: sequence.name, steps: sequence.steps }
+        : { name: "", steps: [newStep()] },
+    );
+  }, [open, sequence, form]);
+
+  const onSubmit = (data: SequenceValues) => {
+    saveSequence(data, sequence?.id);
+    toast.success(`Saved "${data.name}"`);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {sequence ? "Edit Sequence" : "New Sequence"}
+          </DialogTitle>
+          <DialogDescription>
+            The initial email is whatever you send from the compose page. Each
+            follow-up goes out after its delay unless the contact has replied or
+            is paused.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <BasicFormField<SequenceValues> name="name" label="Name" required />
+            <div className="space-y-3">
+              {fields.map((field, index) => (
+                <div key={field.id} className="flex items-end gap-2">
+                  <div className="flex-1">
+                    <SelectFormField<SequenceValues>
+                      name={`steps.${index}.templateId`}
+                      label={`Follow-up ${index + 1}`}
+                      placeholder="Pick a template"
+                      className="w-full"
+                      items={templates.map((template) => ({
+                        label: template.name,
+                        value: template.id,
+                      }))}
+                    />
+                  </div>
+                  <div className="w-28 space-y-2">
+                    <label className="text-sm" htmlFor={`delay-${field.id}`}>
+                      Days after
+                    </label>
+                    <Input
+                      id={`delay-${field.id}`}
+                      type="number"
+                      min={1}
+                      {...form.register(`steps.${index}.delayDays`, {
+                        valueAsNumber: true,
+                      })}
+                    />
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    disabled={fields.length === 1}
+                    onClick={() => remove(index)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              {form.formState.errors.steps?.message && (
+                <p className="text-sm text-red-500">
+                  {form.formState.errors.steps.message}
+                </p>
+              )}
+              {form.formState.errors.steps?.some?.(
+                (step) => step?.delayDays,
+              ) && (
+                <p className="text-sm text-red-500">
+                  Delays must be whole days, at least 1
+                </p>
+              )}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => append(newStep())}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Follow-up
+              </Button>
+            </div>
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline">
+                  Cancel
+                </Button>
+              </DialogClose>
+              <Button type="submit">Save</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SequenceDialog;
@@ -0,0 +1,215 @@
+import { useEffect, useState } from "react";
+import { useSearchParams } from "react-router";
+import { useQueryClient } from "@tanstack/react-query";
+import { Pencil, Plus } from "lucide-react";
+import GenericTableComponent from "@/components/GenericTableComponent";
+import SearchBar from "@/components/SearchBar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { GetSequenceContactsAPI } from "@/services/api";
+import useSequenceStore, {
+  type ContactStatus,
+  type Sequence,
+  type SequenceContact,
+} from "@/store/useSequenceStore";
+import useTemplateStore from "@/store/useTemplateStore";
+import DeleteSequenceDialog from "./components/DeleteSequenceDialog";
+import SequenceContactActions from "./components/SequenceContactActions";
+import SequenceDialog from "./components/SequenceDialog";
+
+const STATUS_LABELS: Record<ContactStatus, string> = {
+  active: "Active",
+  paused: "Paused",
+  replied: "Replied",
+  completed: "Completed",
+  failed: "Failed",
+};
+
+const STATUS_VARIANTS: Record<
+  ContactStatus,
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  active: "default",
+  paused: "outline",
+  replied: "secondary",
+  completed: "secondary",
+  failed: "destructive",
+};
+
+type ContactRow = SequenceContact & { sequence?: Sequence };
+
+const SequencesPage = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { sequences, contacts } = useSequenceStore();
+  const templates = useTemplateStore((state) => state.templates);
+  const [editing, setEditing] = useState<Sequence | "new" | null>(null);
+  const queryClient = useQueryClient();
+
+  const filter = searchParams.get("filter") || "";
+  const status = searchParams.get("status") || "";
+
+  // Follow-ups going out in the background should show up without a reload
+  useEffect(() => {
+    queryClient.invalidateQueries({ queryKey: ["GetSequenceContactsAPI"] });
+  }, [contacts, queryClient]);
+
+  const handleStatusChange = (value: string) => {
+    const newParams = new URLSearchParams(searchParams);
+    if (value === "all") {
+      newParams.delete("status");
+    } else {
+      newParams.set("status", value);
+    }
+    newParams.set("page", "1");
+    setSearchParams(newParams);
+  };
+
+  const templateName = (id: string) =>
+    templates.find((template) => template.id === id)?.name ??
+    "Deleted template";
+
+  const columns = [
+    { header: "Contact", accessorKey: "recipient" },
+    {
+      header: "Sequence",
+      accessorKey: "sequenceId",
+      cell: (item: ContactRow) => item.sequence?.name ?? "-",
+    },
+    {
+      header: "Status",
+      accessorKey: "status",
+      cell: (item: ContactRow) => (
+        <Badge variant={STATUS_VARIANTS[item.status]} title={item.error}>
+          {STATUS_LABELS[item.status]}
+        </Badge>
+      ),
+    },
+    {
+      header: "Emails Sent",
+      accessorKey: "stepsSent",
+      cell: (item: ContactRow) =>
+        `${item.stepsSent}/${(item.sequence?.steps.length ?? 0) + 1}`,
+    },
+    {
+      header: "Next Follow-up",
+      accessorKey: "nextSendAt",
+      cell: (item: ContactRow) =>
+        item.nextSendAt && ["active", "paused"].includes(item.status)
+          ? new Date(item.nextSendAt).toLocaleString()
+          : "-",
+      csvValue: (value: string | null) =>
+        value ? new Date(value).toLocaleString() : "",
+    },
+    {
+      header: "",
+      cell: (item: ContactRow) => <SequenceContactActions contact={item} />,
+    },
+  ];
+
+  return (
+    <div className="min-h-screen">
+      <div className="flex justify-between p-8">
+        <div className="space-y-1">
+          <h1 className="text-2xl font-semibold">Sequences</h1>
+          <p className="text-sm text-muted-foreground">
+            Pick a sequence on the compose page to follow up automatically.
+          </p>
+        </div>
+        <Button onClick={() => setEditing("new")}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Sequence
+        </Button>
+      </div>
+
+      <div className="px-4 space-y-2">
+        {sequences.length === 0 && (
+          <p className="text-sm text-muted-foreground px-4">
+            No sequences yet.
+          </p>
+        )}
+        {sequences.map((sequence) => (
+          <Card key={sequence.id}>
+            <CardContent className="flex items-center justify-between gap-4">
+              <div className="space-y-1">
+                <p className="font-medium">{sequence.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  Initial email
+                  {sequence.steps.map(
+                    (step) =>
+                      ` → day +${step.delayDays}: ${templateName(step.templateId)}`,
+                  )}
+                </p>
+              </div>
+              <div className="flex gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setEditing(sequence)}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <DeleteSequenceDialog sequence={sequence} />
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="flex justify-between p-8">
+        <h2 className="text-xl font-semibold">Contacts</h2>
+        <SearchBar placeholder="Search contacts..." />
+      </div>
+      <div className="mb-24 px-4">
+        <GenericTableComponent
+          apiFn={GetSequenceContactsAPI}
+          queryKey="GetSequenceContactsAPI"
+          columns={columns}
+          initialFilters={{ filter, status }}
+          filters={{
+            status: (
+              <div className="space-y-1">
+                <Label>Status</Label>
+                <Select
+                  value={status || "all"}
+                  onValueChange={handleStatusChange}
+                >
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All statuses</SelectItem>
+                    {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ),
+          }}
+          dataPath="data.items"
+          csvFileName="sequence-contacts"
+          emptyMessage="Nobody is in a sequence yet."
+        />
+      </div>
+
+      <SequenceDialog
+        open={editing !== null}
+        sequence={editing === "new" ? null : editing}
+        onClose={() => setEditing(null)}
+      />
+    </div>
+  );
+};
+
+export default SequencesPage;
@@ -1,15 +1,36 @@
+import { useEffect } from "react";
 import { Navigate, Outlet } from "react-router";
 import useAuthStore from "@/store/useAuthStore";
+import useAccountStore from "@/store/useAccountStore";
+import UnlockPage from "@/pages/auth/unlock";
 import useIdleLogout from "@/hooks/useIdleLogout";
+import useSendQueueRunner from "@/hooks/useSendQueueRunner";
+import useScheduledEmailRunner from "@/hooks/useScheduledEmailRunner";
+import useSequenceRunner from "@/hooks/useSequenceRunner";
+import { mockScheduler } from "@/utils/constants";
+import { hostInlinedAvatars } from "@/utils/functions/signatures";
 
 export const ProtectedRoute = () => {
   const { accessToken } = useAuthStore();
+  const isUnlocked = useAccountStore((state) => state.isUnlocked);
 
   useIdleLogout();
+  useSendQueueRunner({ enabled: Boolean(accessToken) && isUnlocked });
+  useScheduledEmailRunner({ enabled: Boolean(accessToken) && mockScheduler });
+  useSequenceRunner({ enabled: Boolean(accessToken) && isUnlocked });
+
+  // Uploads need a session, so old inlined avatars are hosted after sign-in
+  useEffect(() => {
+    if (accessToken) hostInlinedAvatars();
+  }, [accessToken]);
 
   if (!accessToken) {
     return <Navigate to="/login" />;
   }
 
+  if (!isUnlocked) {
+    return <UnlockPage />;
+  }
+
   return <Outlet />;
 };
@@ -8,4 +8,10 @@ export default {
   roleManagement: "/users/role-management",
 
   // ========================= PRIVATE ROUTES =========================
+  sentHistory: "/sent-history",
+  scheduled: "/scheduled",
+  accounts: "/accounts",
+  sequences: "/sequences",
+  applications: "/applications",
+  abTests: "/ab-tests",
 };
@@ -3,6 +3,12 @@ import routePath from "../routePath";
 import { ProtectedRoute } from "../ProtectedRoute";
 
 const HomePage = lazy(() => import("@/pages/private/home"));
+const SentHistoryPage = lazy(() => import("@/pages/private/sent-history"));
+const ScheduledPage = lazy(() => import("@/pages/private/scheduled"));
+const AccountsPage = lazy(() => import("@/pages/private/accounts"));
+const SequencesPage = lazy(() => import("@/pages/private/sequences"));
+const ApplicationsPage = lazy(() => import("@/pages/private/applications"));
+const ABTestsPage = lazy(() => import("@/pages/private/ab-tests"));
 const UserManagementPage = lazy(
   () => import("@/pages/private/users/user-management"),
 );
@@ -18,6 +24,12 @@ export const privateRoutes = [
     element: <ProtectedRoute />,
     children: [
       { index: true, element: <HomePage /> },
+      { path: routePath.sentHistory, element: <SentHistoryPage /> },
+      { path: routePath.scheduled, element: <ScheduledPage /> },
+      { path: routePath.accounts, element: <AccountsPage /> },
+      { path: routePath.sequences, element: <SequencesPage /> },
+      { path: routePath.applications, element: <ApplicationsPage /> },
+      { path: routePath.abTests, element: <ABTestsPage /> },
 
       {
         path: routePath.userManagement,
@@ -1,12 +1,48 @@
 /* eslint-disable no-useless-catch */
+import { endOfDay, parseISO, startOfDay } from "date-fns";
 import api from "@/configs/axios";
 import endPoint from "./endPoint";
+import useApplicationStore from "@/store/useApplicationStore";
+import useAttachmentStore from "@/store/useAttachmentStore";
+import useAccountStore from "@/store/useAccountStore";
+import useSentHistoryStore from "@/store/useSentHistoryStore";
+import useSequenceStore from "@/store/useSequenceStore";
+import type {
+  ScheduledEmail,
+  ScheduledEmailInput,
+} from "@/types/scheduledEmail";
+import { mockScheduler } from "@/utils/constants";
+import { buildScheduledEmailFormData } from "@/utils/functions/buildEmailFormData";
+import {
+  renderMessages,
+  type MessageContent,
+} from "@/utils/functions/renderMessages";
+import * as scheduledEmailsMock from "./scheduledEmailsMock";
 
 /************************************************************************************************************************************************************************************************************************************************************************************************************************/
 /* AUTH START */
-export const LoginAPI = async (params: any) => {
+/**
+ * Logs in by having the server test the Gmail address and app password
+ * against Gmail's SMTP server. Failures come back with a `code` such as
+ * `AUTH_FAILED`, `TWO_FACTOR_REQUIRED` or `APP_PASSWORD_REVOKED`.
+ */
+export const LoginAPI = async ({
+  email,
+  password,
+}: {
+  email: string;
+  password: string;
+}): Promise<{
+  accessToken: string;
+  refreshToken: string;
+  username?: string;
+  email: string;
+}> => {
   try {
-    const { data } = await api.post(`${endPoint.login}`, params);
+    const { data } = await api.post(`${endPoint.login}`, {
+      email,
+      app_password: password,
+    });
     return data;
   } catch (error) {
     throw error;
@@ -202,6 +238,11 @@ export const GetRolesAPI = async (params: any) => {
 /* USER MANAGEMENT END */
 /************************************************************************************************************************************************************************************************************************************************************************************************************************/
 
+/**
+ * Sends one message through the server's SMTP relay. Failures come back with
+ * a `message` and, where the server knows them, an SMTP client `code` such as
+ * `EAUTH` or `EENVELOPE` and Gmail's `responseCode`; see `parseSendError`.
+ */
 export const SendEmailAPI = async (params: any) => {
   try {
     const { data } = await api.post(`${endPoint.sendEmail}`, params);
@@ -210,3 +251,211 @@ export const SendEmailAPI = async (params: any) => {
     throw error;
   }
 };
+
+/**
+ * Hosts an image used in an email body or signature. Webmail clients block
+ * inline Data URL images, so emails link to the hosted copy instead.
+ * @returns The image's public URL
+ */
+export const UploadImageAPI = async (file: File): Promise<string> => {
+  try {
+    const formData = new FormData();
+    formData.append("image", file);
+    const { data } = await api.post(`${endPoint.uploadImage}`, formData);
+    return data.url;
+  } catch (error) {
+    throw error;
+  }
+};
+
+// Sent history is kept in the browser, so this filters and pages it locally
+export const GetSentHistoryAPI = async ({
+  filter = "",
+  account = "",
+  from = "",
+  to = "",
+  page = 1,
+  pageSize = 10,
+}: {
+  filter?: string;
+  /** Sender address; empty for every account */
+  account?: string;
+  from?: string;
+  to?: string;
+  page?: number;
+  pageSize?: number;
+}) => {
+  const search = filter.trim().toLowerCase();
+  // The date inputs are local days, so compare against local midnights
+  const start = from ? startOfDay(parseISO(from)).getTime() : -Infinity;
+  const end = to ? endOfDay(parseISO(to)).getTime() : Infinity;
+  const items = useSentHistoryStore.getState().messages.filter((message) => {
+    const sentAt = new Date(message.sentAt).getTime();
+    if (account && message.from.toLowerCase() !== account.toLowerCase()) {
+      return false;
+    }
+    if (sentAt < start || sentAt > end) return false;
+    return (
+      !search ||
+      [message.recipient, message.subject, message.from].some((value) =>
+        value.toLowerCase().includes(search),
+      )
+    );
+  });
+
+  return {
+    status: "Success",
+    data: {
+      items: items.slice((page - 1) * pageSize, page * pageSize),
+      totalPages: Math.max(Math.ceil(items.length / pageSize), 1),
+      totalRecords: items.length,
+    },
+  };
+};
+
+// Sequence contacts also live in the browser and are filtered the same way
+export const GetSequenceContactsAPI = async ({
+  filter = "",
+  status = "",
+  page = 1,
+  pageSize = 10,
+}: {
+  filter?: string;
+  /** Contact status; empty for every status */
+  status?: string;
+  page?: number;
+  pageSize?: number;
+}) => {
+  const search = filter.trim().toLowerCase();
+  const { contacts, sequences } = useSequenceStore.getState();
+  const items = contacts
+    .filter(
+      (contact) =>
+        (!status || contact.status === status) &&
+        (!search || contact.recipient.toLowerCase().includes(search)),
+    )
+    .reverse()
+    .map((contact) => ({
+      ...contact,
+      sequence: sequences.find(({ id }) => id === contact.sequenceId),
+    }));
+
+  return {
+    status: "Success",
+    data: {
+      items: items.slice((page - 1) * pageSize, page * pageSize),
+      totalPages: Math.max(Math.ceil(items.length / pageSize), 1),
+      totalRecords: items.length,
+    },
+  };
+};
+
+// Tracked job applications, newest first
+export const GetApplicationsAPI = async ({
+  filter = "",
+  stage = "",
+  page = 1,
+  pageSize = 10,
+}: {
+  filter?: string;
+  /** Application stage; empty for every stage */
+  stage?: string;
+  page?: number;
+  pageSize?: number;
+}) => {
+  const search = filter.trim().toLowerCase();
+  const items = useApplicationStore
+    .getState()
+    .applications.filter(
+      (application) =>
+        (!stage || application.stage === stage) &&
+        (!search ||
+          [application.company, application.role, ...application.contacts].some(
+            (value) => value.toLowerCase().includes(search),
+          )),
+    )
+    .reverse();
+
+  return {
+    status: "Success",
+    data: {
+      items: items.slice((page - 1) * pageSize, page * pageSize),
+      totalPages: Math.max(Math.ceil(items.length / pageSize), 1),
+      totalRecords: items.length,
+    },
+  };
+};
+
+/************************************************************************************************************************************************************************************************************************************************************************************************************************/
+/* SCHEDULED EMAILS START */
+export const GetScheduledEmailsAPI = async (params: {
+  page?: number;
+  pageSize?: number;
+}) => {
+  if (mockScheduler) return scheduledEmailsMock.getScheduledEmails(params);
+  try {
+    const { data } = await api.get(`${endPoint.scheduledEmails}`, { params });
+    return data;
+  } catch (error) {
+    throw error;
+  }
+};
+
+// Local jobs read their files from this browser when they go out; a real
+// backend already received its copy when the email was scheduled
+export const getScheduledAttachmentIds = () =>
+  mockScheduler ? scheduledEmailsMock.getScheduledAttachmentIds() : [];
+
+export const ScheduleEmailAPI = async (input: ScheduledEmailInput) => {
+  if (mockScheduler) return scheduledEmailsMock.createScheduledEmail(input);
+  const { attachmentIds, from, sendAt, cc, bcc, replyTo, ...content } = input;
+  try {
+    const { data } = await api.post(
+      `${endPoint.scheduledEmails}`,
+      buildScheduledEmailFormData({
+        email: from,
+        password: useAccountStore.getState().getPassword(from),
+        sendAt,
+        content,
+        cc,
+        bcc,
+        replyTo,
+        attachments: await useAttachmentStore
+          .getState()
+          .getFiles(attachmentIds),
+      }),
+    );
+    return data;
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const UpdateScheduledEmailAPI = async ({
+  id,
+  ...patch
+}: Pick<ScheduledEmail, "id" | "sendAt" | keyof MessageContent>) => {
+  if (mockScheduler) return scheduledEmailsMock.updateScheduledEmail(id, patch);
+  try {
+    const { sendAt, ...content } = patch;
+    const { data } = await api.put(`${endPoint.scheduledEmails}/${id}`, {
+      send_at: sendAt,
+      content,
+      messages: renderMessages(content),
+    });
+    return data;
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const CancelScheduledEmailAPI = async (id: string) => {
+  if (mockScheduler) return scheduledEmailsMock.deleteScheduledEmail(id);
+  try {
+    const { data } = await api.delete(`${endPoint.scheduledEmails}/${id}`);
+    return data;
+  } catch (error) {
+    throw error;
+  }
+};
+/* SCHEDULED EMAILS END */
@@ -21,4 +21,6 @@ export default {
   getRoles: "/api/User/Account/SearchRoles",
 
   sendEmail: "/send-email",
+  uploadImage: "/upload-image",
+  scheduledEmails: "/scheduled-emails",
 };
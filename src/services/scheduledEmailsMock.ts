@@ -0,0 +1,116 @@
+import { v4 as uuidv4 } from "uuid";
+import type {
+  ScheduledEmail,
+  ScheduledEmailInput,
+} from "@/types/scheduledEmail";
+
+/**
+ * Stands in for the scheduled-email endpoints when no backend is configured
+ * (see `mockScheduler`). Jobs are kept in localStorage and are only sent while
+ * the app is open, by `useScheduledEmailRunner`.
+ */
+
+const STORAGE_KEY = "scheduled-emails";
+
+// Unreadable jobs are reported rather than read as an empty list, so the
+// next save cannot overwrite them
+const load = (): ScheduledEmail[] => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return [];
+  try {
+    return JSON.parse(stored);
+  } catch {
+    throw new Error("Scheduled emails saved in this browser could not be read");
+  }
+};
+
+const save = (jobs: ScheduledEmail[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(jobs));
+  } catch {
+    throw new Error(
+      "Browser storage is full, so scheduled emails could not be saved",
+    );
+  }
+};
+
+// Errors from load and save reject like a failed request would
+const attempt = <T>(fn: () => Promise<T>) => {
+  try {
+    return fn();
+  } catch (error) {
+    return Promise.reject(error);
+  }
+};
+
+// Simulate the network delay of the real endpoints
+const respond = <T>(data: T) =>
+  new Promise<{ status: string; data: T }>((resolve) =>
+    setTimeout(() => resolve({ status: "Success", data }), 300),
+  );
+
+export const getScheduledEmails = ({ page = 1, pageSize = 10 }) =>
+  attempt(() => {
+    const jobs = load().sort((a, b) => a.sendAt.localeCompare(b.sendAt));
+    return respond({
+      items: jobs.slice((page - 1) * pageSize, page * pageSize),
+      totalPages: Math.max(Math.ceil(jobs.length / pageSize), 1),
+      totalRecords: jobs.length,
+    });
+  });
+
+export const createScheduledEmail = (input: ScheduledEmailInput) =>
+  attempt(() => {
+    const job: ScheduledEmail = {
+      ...input,
+      id: uuidv4(),
+      createdAt: new Date().toISOString(),
+    };
+    save([...load(), job]);
+    return respond(job);
+  });
+
+export const updateScheduledEmail = (
+  id: string,
+  patch: Partial<ScheduledEmailInput>,
+) =>
+  attempt(() => {
+    const jobs = load();
+    const job = jobs.find((item) => item.id === id);
+    if (!job) return Promise.reject(new Error("Scheduled email not found"));
+
+    const updated = { ...job, ...patch };
+    save(jobs.map((item) => (item.id === id ? updated : item)));
+    return respond(updated);
+  });
+
+export const deleteScheduledEmail = (id: string) =>
+  attempt(() => {
+    save(load().filter((job) => job.id !== id));
+    return respond(id);
+  });
+
+/**
+ * Lists the attachments pending jobs will read when they are sent
+ * @returns {string[]} Attachment ids; empty when the jobs cannot be read
+ */
+export const getScheduledAttachmentIds = () => {
+  try {
+    return load().flatMap((job) => job.attachmentIds);
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Removes and returns every job that is due, the way the backend would pick
+ * them up for sending.
+ * @throws {Error} When the stored jobs cannot be read or updated; nothing is
+ * claimed then
+ */
+export const claimDueScheduledEmails = (now = new Date()) => {
+  const jobs = load();
+  const due = jobs.filter((job) => new Date(job.sendAt) <= now);
+  if (due.length > 0) save(jobs.filter((job) => !due.includes(job)));
+  return due;
+};
@@ -0,0 +1,259 @@
+import { create } from "zustand";
+import { v4 as uuidv4 } from "uuid";
+import {
+  decryptFromStorage,
+  decryptLegacyStorage,
+  deriveKey,
+  encryptForStorage,
+  generateSalt,
+  PBKDF2_ITERATIONS,
+} from "@/utils/functions/cryptoUtils";
+
+// Both outlive logout (see clearSession); only resetVault removes them
+const STORAGE_KEY = "sender-accounts";
+const VAULT_KEY = "vault";
+const VAULT_CHECK = "vault-check";
+
+export interface SenderAccount {
+  id: string;
+  /** Gmail address messages are sent from */
+  email: string;
+  /** Gmail app password */
+  password: string;
+  addedAt: string;
+}
+
+interface AccountState {
+  /** Whether an unlock passphrase has been chosen in this browser */
+  hasPassphrase: boolean;
+  /** Accounts are only loaded, and sends only possible, while unlocked */
+  isUnlocked: boolean;
+  accounts: SenderAccount[];
+  defaultAccountId: string | null;
+  unlock: (passphrase: string) => Promise<void>;
+  lock: () => void;
+  resetVault: () => void;
+  addAccount: (
+    credentials: Pick<SenderAccount, "email" | "password">,
+  ) => string;
+  removeAccount: (id: string) => void;
+  setDefaultAccount: (id: string) => void;
+  getAccountByEmail: (email: string) => SenderAccount | undefined;
+  getPassword: (email: string) => string;
+}
+
+type StoredAccounts = Pick<AccountState, "accounts" | "defaultAccountId">;
+
+interface StoredVault {
+  salt: string;
+  iterations: number;
+  /** A known string encrypted with the key, to tell a wrong passphrase */
+  check: string;
+}
+
+const EMPTY: StoredAccounts = { accounts: [], defaultAccountId: null };
+
+// The derived key is kept out of the store state and never persisted
+let vaultKey: CryptoKey | null = null;
+let saving = Promise.resolve();
+
+const loadVault = (): StoredVault | null => {
+  try {
+    const stored = localStorage.getItem(VAULT_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Writes are chained so a slow encrypt never overwrites a newer one
+const persist = (data: StoredAccounts) => {
+  const key = vaultKey;
+  if (!key) return;
+  saving = saving
+    .then(() => encryptForStorage(key, data))
+    .then((encrypted) => localStorage.setItem(STORAGE_KEY, encrypted))
+    .catch((error) => {
+      console.error("Failed to save sender accounts to localStorage:", error);
+    });
+};
+
+const openVault = async (passphrase: string) => {
+  const vault = loadVault();
+  if (vault) {
+    const key = await deriveKey(passphrase, vault.salt, vault.iterations);
+    if ((await decryptFromStorage(key, vault.check, false)) !== VAULT_CHECK) {
+      throw new Error("Wrong passphrase");
+    }
+    return key;
+  }
+
+  const salt = generateSalt();
+  const key = await deriveKey(passphrase, salt);
+  localStorage.setItem(
+    VAULT_KEY,
+    JSON.stringify({
+      salt,
+      iterations: PBKDF2_ITERATIONS,
+      check: await encryptForStorage(key, VAULT_CHECK),
+    }),
+  );
+  return key;
+};
+
+/**
+ * Before encryption, accounts were XOR-obfuscated, and before accounts
+ * existed the login's app password sat in the auth data. Both are read once
+ * and re-saved encrypted, and the password is dropped from the auth data.
+ */
+const migrateLegacyCredentials = (): StoredAccounts | null => {
+  const legacyAccounts = decryptLegacyStorage(
+    localStorage.getItem(STORAGE_KEY),
+  );
+  const auth = decryptLegacyStorage(localStorage.getItem("data"));
+  if (auth) {
+    const { email, username } = auth;
+    localStorage.setItem("data", JSON.stringify({ email, username }));
+  }
+  if (legacyAccounts) return legacyAccounts;
+  if (!auth?.email || !auth?.password) return null;
+
+  const account: SenderAccount = {
+    id: uuidv4(),
+    email: auth.email,
+    password: auth.password,
+    addedAt: new Date().toISOString(),
+  };
+  return { accounts: [account], defaultAccountId: account.id };
+};
+
+/**
+ * Zustand store for the Gmail accounts mail can be sent from. Credentials are
+ * encrypted at rest with a key derived from the user's unlock passphrase and
+ * are only held in memory while unlocked.
+ */
+const useAccountStore = create<AccountState>()((set, get) => {
+  const update = (data: Partial<StoredAccounts>) => {
+    const next = {
+      accounts: data.accounts ?? get().accounts,
+      defaultAccountId:
+        data.defaultAccountId !== undefined
+          ? data.defaultAccountId
+          : get().defaultAccountId,
+    };
+    persist(next);
+    set(next);
+  };
+
+  return {
+    hasPassphrase: Boolean(loadVault()),
+    isUnlocked: false,
+    ...EMPTY,
+
+    /**
+     * Derives the key and decrypts the accounts. The first call chooses the
+     * passphrase and migrates credentials saved by older versions.
+     * @throws {Error} When the passphrase does not match
+     */
+    unlock: async (passphrase) => {
+      vaultKey = await openVault(passphrase);
+      const stored = await decryptFromStorage(
+        vaultKey,
+        localStorage.getItem(STORAGE_KEY),
+      );
+      const migrated = stored ? null : migrateLegacyCredentials();
+      set({ hasPassphrase: true, isUnlocked: true });
+      if (migrated) {
+        update(migrated);
+      } else {
+        set(stored ?? EMPTY);
+      }
+    },
+
+    /** Forgets the key and the decrypted accounts */
+    lock: () => {
+      vaultKey = null;
+      set({ isUnlocked: false, ...EMPTY });
+    },
+
+    /**
+     * Deletes the passphrase and every stored account, for when the
+     * passphrase is forgotten.
+     */
+    resetVault: () => {
+      vaultKey = null;
+      localStorage.removeItem(VAULT_KEY);
+      localStorage.removeItem(STORAGE_KEY);
+      set({ hasPassphrase: false, isUnlocked: false, ...EMPTY });
+    },
+
+    /**
+     * Adds an account, or updates the app password when the address is
+     * already known. The first account becomes the default.
+     * @returns {string} The account id
+     */
+    addAccount: ({ email, password }) => {
+      const existing = get().getAccountByEmail(email);
+      if (existing) {
+        update({
+          accounts: get().accounts.map((account) =>
+            account.id === existing.id ? { ...account, password } : account,
+          ),
+        });
+        return existing.id;
+      }
+
+      const account: SenderAccount = {
+        id: uuidv4(),
+        email: email.trim(),
+        password,
+        addedAt: new Date().toISOString(),
+      };
+      update({
+        accounts: [...get().accounts, account],
+        defaultAccountId: get().defaultAccountId ?? account.id,
+      });
+      return account.id;
+    },
+
+    /**
+     * Removes an account and its credentials. If it was the default, the
+     * next remaining account takes over.
+     */
+    removeAccount: (id) => {
+      const accounts = get().accounts.filter((account) => account.id !== id);
+      update({
+        accounts,
+        defaultAccountId:
+          get().defaultAccountId === id
+            ? (accounts[0]?.id ?? null)
+            : get().defaultAccountId,
+      });
+    },
+
+    setDefaultAccount: (id) => update({ defaultAccountId: id }),
+
+    getAccountByEmail: (email) =>
+      get().accounts.find(
+        (account) => account.email.toLowerCase() === email.toLowerCase(),
+      ),
+
+    /**
+     * Looks up the app password for a sending address.
+     * @throws {Error} When locked, or when the account has been removed since
+     * the send was queued
+     */
+    getPassword: (email) => {
+      if (!get().isUnlocked) {
+        throw new Error("Unlock your accounts to send");
+      }
+      const account = get().getAccountByEmail(email);
+      if (!account) {
+        throw new Error(`${email} is no longer a sender account`);
+      }
+      return account.password;
+    },
+  };
+});
+
+export default useAccountStore;
@@ -0,0 +1,183 @@
+import { create } from "zustand";
+import { v4 as uuidv4 } from "uuid";
+
+const STORAGE_KEY = "job-applications";
+
+export const APPLICATION_STAGES = [
+  "contacted",
+  "replied",
+  "interview",
+  "offer",
+  "rejected",
+] as const;
+
+export type ApplicationStage = (typeof APPLICATION_STAGES)[number];
+
+export const STAGE_LABELS: Record<ApplicationStage, string> = {
+  contacted: "Contacted",
+  replied: "Replied",
+  interview: "Interview",
+  offer: "Offer",
+  rejected: "Rejected",
+};
+
+export interface JobApplication {
+  id: string;
+  company: string;
+  role: string;
+  /** Addresses at the company; sends to any of them are linked here */
+  contacts: string[];
+  /** Sends to any address at this domain are linked too, e.g. `acme.com` */
+  domain: string;
+  stage: ApplicationStage;
+  /** When each stage was reached */
+  stageDates: Partial<Record<ApplicationStage, string>>;
+  /** Date of the next interview, call or follow-up */
+  nextStepAt?: string;
+  notes: string;
+  /** Sent-history ids of the emails sent to this entry's contacts */
+  messageIds: string[];
+  lastEmailedAt?: string;
+  createdAt: string;
+}
+
+export type ApplicationValues = Pick<
+  JobApplication,
+  "company" | "role" | "contacts" | "domain" | "stage" | "nextStepAt" | "notes"
+> & {
+  /** When the chosen stage was reached; defaults to now for a new stage */
+  stageDate?: string;
+};
+
+interface ApplicationState {
+  applications: JobApplication[];
+  saveApplication: (values: ApplicationValues, id?: string) => string;
+  deleteApplication: (id: string) => void;
+  setStage: (id: string, stage: ApplicationStage) => void;
+  linkSentMessage: (recipient: string, messageId: string) => number;
+}
+
+const persist = (applications: JobApplication[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(applications));
+  } catch (error) {
+    console.error("Failed to save applications to localStorage:", error);
+  }
+};
+
+const loadApplications = (): JobApplication[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Whether an email to `recipient` belongs to an application, either as one of
+ * its contacts or as an address at its domain
+ */
+export const matchesApplication = (
+  application: JobApplication,
+  recipient: string,
+) => {
+  const address = recipient.toLowerCase();
+  const domain = application.domain.trim().toLowerCase().replace(/^@/, "");
+  return (
+    application.contacts.some((contact) => contact.toLowerCase() === address) ||
+    (domain !== "" && address.endsWith(`@${domain}`))
+  );
+};
+
+/**
+ * Zustand store for the job application tracker. Emails sent to an entry's
+ * contacts are linked to it as they go out.
+ */
+const useApplicationStore = create<ApplicationState>()((set, get) => {
+  const update = (applications: JobApplication[]) => {
+    persist(applications);
+    set({ applications });
+  };
+
+  return {
+    applications: loadApplications(),
+
+    /**
+     * Creates an application or updates an existing one. Moving to a new
+     * stage records when it was reached.
+     * @returns {string} The application id
+     */
+    saveApplication: ({ stageDate, ...values }, id) => {
+      const existing = get().applications.find((item) => item.id === id);
+      const stageDates = {
+        ...existing?.stageDates,
+        [values.stage]:
+          stageDate ??
+          existing?.stageDates[values.stage] ??
+          new Date().toISOString(),
+      };
+      if (existing) {
+        update(
+          get().applications.map((item) =>
+            item.id === existing.id ? { ...item, ...values, stageDates } : item,
+          ),
+        );
+        return existing.id;
+      }
+      const created: JobApplication = {
+        ...values,
+        id: uuidv4(),
+        stageDates,
+        messageIds: [],
+        createdAt: new Date().toISOString(),
+      };
+      update([...get().applications, created]);
+      return created.id;
+    },
+
+    deleteApplication: (id) =>
+      update(get().applications.filter((item) => item.id !== id)),
+
+    /**
+     * Moves an application to a stage, stamping today if it is new.
+     */
+    setStage: (id, stage) =>
+      update(
+        get().applications.map((item) =>
+          item.id === id
+            ? {
+                ...item,
+                stage,
+                stageDates: {
+                  ...item.stageDates,
+                  [stage]: item.stageDates[stage] ?? new Date().toISOString(),
+                },
+              }
+            : item,
+        ),
+      ),
+
+    /**
+     * Links a sent email to every application it was addressed to.
+     * @returns {number} How many applications it was linked to
+     */
+    linkSentMessage: (recipient, messageId) => {
+      const now = new Date().toISOString();
+      let linked = 0;
+      const applications = get().applications.map((item) => {
+        if (!matchesApplication(item, recipient)) return item;
+        linked++;
+        return {
+          ...item,
+          messageIds: [...item.messageIds, messageId],
+          lastEmailedAt: now,
+        };
+      });
+      if (linked > 0) update(applications);
+      return linked;
+    },
+  };
+});
+
+export default useApplicationStore;
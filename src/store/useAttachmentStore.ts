@@ -0,0 +1,142 @@
+import { create } from "zustand";
+import { v4 as uuidv4 } from "uuid";
+import { deleteBlob, getBlob, putBlob } from "@/utils/functions/blobStorage";
+import {
+  storedFileToFile,
+  type StoredFile,
+} from "@/utils/functions/fileDataUrl";
+
+const STORAGE_KEY = "email-attachments";
+
+export interface Attachment {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  addedAt: string;
+}
+
+interface AttachmentState {
+  /** File metadata; the contents live in IndexedDB under the same id */
+  attachments: Attachment[];
+  addFiles: (files: File[]) => Promise<string[]>;
+  importStoredFile: (storedFile: StoredFile) => string;
+  removeAttachment: (id: string) => void;
+  getFiles: (ids: string[]) => Promise<File[]>;
+}
+
+const persist = (attachments: Attachment[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(attachments));
+  } catch (error) {
+    console.error("Failed to save attachments to localStorage:", error);
+  }
+};
+
+const loadAttachments = (): Attachment[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Sums the size of the given attachments
+ * @param {Attachment[]} attachments - Attachment library
+ * @param {string[]} ids - Selected attachment ids
+ * @returns {number} Total size in bytes
+ */
+export const getTotalSize = (attachments: Attachment[], ids: string[]) =>
+  attachments
+    .filter((attachment) => ids.includes(attachment.id))
+    .reduce((total, attachment) => total + attachment.size, 0);
+
+/**
+ * Zustand store for the attachment library shared by templates and sends.
+ */
+const useAttachmentStore = create<AttachmentState>()((set, get) => {
+  const add = (attachment: Attachment) => {
+    const attachments = [...get().attachments, attachment];
+    persist(attachments);
+    set({ attachments });
+  };
+
+  return {
+    attachments: loadAttachments(),
+
+    /**
+     * Stores uploaded files in the library.
+     * @returns {Promise<string[]>} Ids of the new attachments
+     */
+    addFiles: async (files) => {
+      const ids: string[] = [];
+      for (const file of files) {
+        const id = uuidv4();
+        await putBlob(id, file);
+        add({
+          id,
+          name: file.name,
+          type: file.type,
+          size: file.size,
+          addedAt: new Date().toISOString(),
+        });
+        ids.push(id);
+      }
+      return ids;
+    },
+
+    /**
+     * Moves a Data URL attachment from older localStorage records into the
+     * library. The id is returned right away; the contents are written in
+     * the background.
+     */
+    importStoredFile: (storedFile) => {
+      const id = uuidv4();
+      add({
+        id,
+        name: storedFile.name,
+        type: storedFile.type,
+        size: storedFile.size,
+        addedAt: new Date().toISOString(),
+      });
+      storedFileToFile(storedFile)
+        .then((file) => putBlob(id, file))
+        .catch((error) =>
+          console.error(
+            `Failed to import attachment ${storedFile.name}`,
+            error,
+          ),
+        );
+      return id;
+    },
+
+    removeAttachment: (id) => {
+      const attachments = get().attachments.filter(
+        (attachment) => attachment.id !== id,
+      );
+      persist(attachments);
+      set({ attachments });
+      deleteBlob(id).catch(console.error);
+    },
+
+    /**
+     * Reads attachments back as Files for a multipart upload.
+     * @throws {Error} When an attachment was removed from the library
+     */
+    getFiles: async (ids) =>
+      Promise.all(
+        ids.map(async (id) => {
+          const attachment = get().attachments.find((item) => item.id === id);
+          const blob = await getBlob(id);
+          if (!attachment || !blob) {
+            throw new Error("An attachment is no longer available");
+          }
+          return new File([blob], attachment.name, { type: attachment.type });
+        }),
+      ),
+  };
+});
+
+export default useAttachmentStore;
@@ -1,34 +1,67 @@
 import { create } from "zustand";
 import api from "@/configs/axios";
-import {
-  decryptFromStorage,
-  encryptForStorage,
-} from "@/utils/functions/cryptoUtils";
+import { decryptLegacyStorage } from "@/utils/functions/cryptoUtils";
+import { clearSession } from "@/utils/functions/authStorage";
+
+/** The logged-in user, as returned by the login endpoint */
+export interface AuthUser {
+  email?: string;
+  username?: string;
+  roleName?: string;
+  userImage?: string;
+}
+
+interface AuthState {
+  accessToken: string | null;
+  refreshToken: string | null;
+  data: AuthUser | null;
+  setToken: (payload: {
+    accessToken: string;
+    refreshToken: string;
+    data?: AuthUser;
+  }) => void;
+  clearToken: () => void;
+}
+
+/**
+ * Reads the user data. Credentials live in the encrypted account store, so
+ * this is plain JSON; older versions XOR-obfuscated it and kept the app
+ * password here until the account store migrates it.
+ */
+const loadData = (): AuthUser | null => {
+  const stored = localStorage.getItem("data");
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored);
+  } catch {
+    const legacy = decryptLegacyStorage(stored);
+    if (legacy) delete legacy.password;
+    return legacy;
+  }
+};
 
 /**
  * Zustand store for authentication.
  */
-const useAuthStore = create((set) => ({
+const useAuthStore = create<AuthState>()((set) => ({
   /** JWT access token */
   accessToken: localStorage.getItem("accessToken"),
 
   /** JWT refresh token */
   refreshToken: localStorage.getItem("refreshToken"),
 
-  /** User data (decrypted) */
-  data: localStorage.getItem("data")
-    ? decryptFromStorage(localStorage.getItem("data"))
-    : null,
+  /** User data */
+  data: loadData(),
 
   /**
-   * Sets authentication tokens and user data (encrypted).
+   * Sets authentication tokens and user data.
    * @param {Object} payload - The auth data.
    */
   setToken: ({ accessToken, refreshToken, data = {} }) => {
     api.defaults.headers.common["Authorization"] = `Bearer ${accessToken}`;
     localStorage.setItem("accessToken", accessToken);
     localStorage.setItem("refreshToken", refreshToken);
-    localStorage.setItem("data", encryptForStorage(JSON.stringify(data))); // Encrypt user data
+    localStorage.setItem("data", JSON.stringify(data));
     set({ accessToken, refreshToken, data });
   },
 
@@ -36,9 +69,7 @@ const useAuthStore = create((set) => ({
    * Clears authentication tokens and user data.
    */
   clearToken: () => {
-    localStorage.removeItem("accessToken");
-    localStorage.removeItem("refreshToken");
-    localStorage.removeItem("data");
+    clearSession();
     set({ accessToken: null, refreshToken: null, data: null });
   },
 }));
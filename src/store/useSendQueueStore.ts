@@ -0,0 +1,343 @@
+import { create } from "zustand";
+import { toast } from "sonner";
+import { v4 as uuidv4 } from "uuid";
+import useSequenceStore from "@/store/useSequenceStore";
+import type { VariantTag } from "@/utils/functions/abTest";
+import { toEmailHtml } from "@/utils/functions/emailHtml";
+import type { MergeData } from "@/utils/functions/mergeFields";
+import type { SendErrorKind } from "@/utils/functions/sendErrors";
+
+const STORAGE_KEY = "send-queue";
+
+export type SendStatus = "pending" | "sending" | "sent" | "failed";
+
+export interface SendQueueItem {
+  id: string;
+  recipient: string;
+  /** Rendered subject */
+  subject: string;
+  /** Merge data the body is rendered with at send time */
+  mergeData: MergeData;
+  /** Index into the batch's contents; 0 unless the batch is an A/B test */
+  content?: number;
+  status: SendStatus;
+  error?: string;
+  /** Why a failed row failed; unset for rows skipped on purpose */
+  errorKind?: SendErrorKind;
+  /** SMTP reply code for a rejected recipient */
+  smtpCode?: number;
+  /** Follow-up sequence contact this email belongs to */
+  sequenceContactId?: string;
+  /** A/B test variant this recipient was given */
+  variant?: VariantTag;
+  /** Retried without the batch's attachments after they were rejected */
+  dropAttachments?: boolean;
+  /** Queued, or put back, while the browser was offline; shown in the outbox */
+  queuedOffline?: boolean;
+  /** Carries the batch's Cc and Bcc, which go out with one message only */
+  withCopies?: boolean;
+}
+
+/** Subject and HTML body with merge placeholders, stored once per batch */
+export interface BatchContent {
+  subject: string;
+  body: string;
+}
+
+/** Extra addresses for a batch; Reply-To goes on every message, Cc and Bcc on one */
+export interface CopyRecipients {
+  cc: string[];
+  bcc: string[];
+  replyTo: string[];
+}
+
+export interface SendBatch extends CopyRecipients {
+  id: string;
+  createdAt: string;
+  /** Sender address; the app password is read from the account store at send time */
+  from: string;
+  /** Ids in the attachment library, read from IndexedDB at send time */
+  attachmentIds: string[];
+  /** Emails already sent in the items' sequence: 0 for the initial email */
+  sequenceStep?: number;
+  /** Nothing is sent before this time, so the whole batch can be undone */
+  holdUntil?: string;
+  contents: BatchContent[];
+  items: SendQueueItem[];
+}
+
+interface SendQueueState {
+  batches: SendBatch[];
+  enqueue: (
+    batch: Pick<
+      SendBatch,
+      | "from"
+      | "attachmentIds"
+      | "sequenceStep"
+      | "holdUntil"
+      | "contents"
+      | keyof CopyRecipients
+    > & {
+      items: Pick<
+        SendQueueItem,
+        | "recipient"
+        | "subject"
+        | "mergeData"
+        | "content"
+        | "sequenceContactId"
+        | "variant"
+      >[];
+    },
+  ) => string;
+  updateItem: (
+    batchId: string,
+    itemId: string,
+    patch: Partial<SendQueueItem>,
+  ) => void;
+  retryFailed: (
+    batchId: string,
+    options?: {
+      kind?: SendErrorKind;
+      dropAttachments?: boolean;
+      itemIds?: string[];
+    },
+  ) => SendQueueItem[];
+  discardItems: (batchId: string, itemIds?: string[]) => void;
+  cancelBatch: (batchId: string) => SendBatch | undefined;
+  removeBatch: (batchId: string) => void;
+}
+
+/**
+ * Whether one of a batch's rows is sending or has sent its Cc and Bcc, so
+ * the others go without them.
+ * @returns {boolean} True once the copies are taken
+ */
+export const hasCopiesOut = (batch: SendBatch) =>
+  batch.items.some(
+    (item) =>
+      item.withCopies && (item.status === "sending" || item.status === "sent"),
+  );
+
+/**
+ * Attachments that go out with one row of a batch.
+ * @returns {string[]} Ids in the attachment library
+ */
+export const getItemAttachmentIds = (batch: SendBatch, item: SendQueueItem) =>
+  item.dropAttachments ? [] : batch.attachmentIds;
+
+// Sends still go out from memory, but would not resume after a reload
+const persist = (batches: SendBatch[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(batches));
+  } catch (error) {
+    console.error("Failed to save send queue to localStorage:", error);
+    toast.error("The send queue could not be saved", {
+      id: STORAGE_KEY,
+      description:
+        "Browser storage is full. Keep this tab open until sending finishes.",
+    });
+  }
+};
+
+type LegacyItem = SendQueueItem & { body?: string; html?: string };
+type LegacyBatch = Omit<SendBatch, "items"> & { items: LegacyItem[] };
+
+// Older queues kept every item's rendered body; each becomes its own content
+const migrateContents = (batch: LegacyBatch): SendBatch => {
+  if (batch.contents) return batch;
+  return {
+    ...batch,
+    contents: batch.items.map((item) => ({
+      subject: item.subject,
+      body: item.html ?? toEmailHtml(item.body ?? ""),
+    })),
+    items: batch.items.map((legacy, index) => {
+      const item: LegacyItem = { ...legacy, mergeData: {}, content: index };
+      delete item.body;
+      delete item.html;
+      return item;
+    }),
+  };
+};
+
+// A reload interrupts in-flight requests, so those rows are sent again
+const loadBatches = (): SendBatch[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const batches: LegacyBatch[] = stored ? JSON.parse(stored) : [];
+    return batches.map(migrateContents).map((batch) => ({
+      ...batch,
+      attachmentIds: batch.attachmentIds ?? [],
+      cc: batch.cc ?? [],
+      bcc: batch.bcc ?? [],
+      replyTo: batch.replyTo ?? [],
+      items: batch.items.map((item) =>
+        item.status === "sending" ? { ...item, status: "pending" } : item,
+      ),
+    }));
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Zustand store for the per-recipient send queue, persisted so a run
+ * resumes after a reload.
+ */
+const useSendQueueStore = create<SendQueueState>()((set, get) => ({
+  /** Queued batches, oldest first */
+  batches: loadBatches(),
+
+  /**
+   * Adds a batch with every item pending, flagged for the outbox when the
+   * browser is offline.
+   * @returns {string} The new batch id
+   */
+  enqueue: ({ items, ...batchFields }) => {
+    const batch: SendBatch = {
+      ...batchFields,
+      id: uuidv4(),
+      createdAt: new Date().toISOString(),
+      items: items.map((item) => ({
+        ...item,
+        id: uuidv4(),
+        status: "pending",
+        queuedOffline: !navigator.onLine || undefined,
+      })),
+    };
+    const batches = [...get().batches, batch];
+    persist(batches);
+    set({ batches });
+    return batch.id;
+  },
+
+  /**
+   * Updates a single recipient's row.
+   */
+  updateItem: (batchId, itemId, patch) => {
+    const batches = get().batches.map((batch) =>
+      batch.id === batchId
+        ? {
+            ...batch,
+            items: batch.items.map((item) =>
+              item.id === itemId ? { ...item, ...patch } : item,
+            ),
+          }
+        : batch,
+    );
+    persist(batches);
+    set({ batches });
+  },
+
+  /**
+   * Puts a batch's failed rows, or the given ones among them, back in the
+   * queue so only those recipients are sent again, reactivating their
+   * sequence contacts. Rows skipped on purpose are left alone.
+   * @returns {SendQueueItem[]} The rows queued again
+   */
+  retryFailed: (batchId, { kind, dropAttachments = false, itemIds } = {}) => {
+    const isRetried = (item: SendQueueItem) =>
+      item.status === "failed" &&
+      Boolean(item.errorKind) &&
+      (!kind || item.errorKind === kind) &&
+      (!itemIds || itemIds.includes(item.id));
+    const retried =
+      get()
+        .batches.find((batch) => batch.id === batchId)
+        ?.items.filter(isRetried) ?? [];
+    const batches = get().batches.map((batch) =>
+      batch.id === batchId
+        ? {
+            ...batch,
+            items: batch.items.map((item) =>
+              isRetried(item)
+                ? {
+                    ...item,
+                    dropAttachments: dropAttachments || item.dropAttachments,
+                    queuedOffline:
+                      item.queuedOffline || item.errorKind === "network",
+                    status: "pending" as const,
+                    error: undefined,
+                    errorKind: undefined,
+                    smtpCode: undefined,
+                  }
+                : item,
+            ),
+          }
+        : batch,
+    );
+    persist(batches);
+    set({ batches });
+    const { recordStepRetried } = useSequenceStore.getState();
+    retried.forEach((item) => {
+      if (item.sequenceContactId) recordStepRetried(item.sequenceContactId);
+    });
+    return retried;
+  },
+
+  /**
+   * Drops unsent rows from a batch, or all of them when no ids are given,
+   * and the batch itself once nothing is left. A discarded sequence email
+   * stops its contact until it is resumed.
+   */
+  discardItems: (batchId, itemIds) => {
+    const isDiscarded = (item: SendQueueItem) =>
+      item.status !== "sent" &&
+      item.status !== "sending" &&
+      (!itemIds || itemIds.includes(item.id));
+    const discarded =
+      get()
+        .batches.find((batch) => batch.id === batchId)
+        ?.items.filter(isDiscarded) ?? [];
+    const batches = get()
+      .batches.map((batch) =>
+        batch.id === batchId
+          ? {
+              ...batch,
+              items: batch.items.filter((item) => !isDiscarded(item)),
+            }
+          : batch,
+      )
+      .filter((batch) => batch.items.length > 0);
+    persist(batches);
+    set({ batches });
+    const { recordStepFailed } = useSequenceStore.getState();
+    discarded.forEach((item) => {
+      if (item.sequenceContactId && item.status === "pending") {
+        recordStepFailed(item.sequenceContactId, "Discarded from the outbox");
+      }
+    });
+  },
+
+  /**
+   * Withdraws a batch before any of it has been sent, e.g. from the undo
+   * toast, along with the sequence contacts enrolled for it.
+   * @returns {SendBatch | undefined} The withdrawn batch, or undefined once
+   * sending has started
+   */
+  cancelBatch: (batchId) => {
+    const batch = get().batches.find(({ id }) => id === batchId);
+    if (!batch || batch.items.some((item) => item.status !== "pending")) {
+      return undefined;
+    }
+    const batches = get().batches.filter(({ id }) => id !== batchId);
+    persist(batches);
+    set({ batches });
+    const { removeContact } = useSequenceStore.getState();
+    batch.items.forEach((item) => {
+      if (item.sequenceContactId) removeContact(item.sequenceContactId);
+    });
+    return batch;
+  },
+
+  /**
+   * Drops a batch, e.g. once the user dismisses its progress list.
+   */
+  removeBatch: (batchId) => {
+    const batches = get().batches.filter((batch) => batch.id !== batchId);
+    persist(batches);
+    set({ batches });
+  },
+}));
+
+export default useSendQueueStore;
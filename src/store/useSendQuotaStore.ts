@@ -0,0 +1,165 @@
+import { create } from "zustand";
+import type { CopyRecipients } from "@/store/useSendQueueStore";
+
+const STORAGE_KEY = "send-quota";
+
+/** Gmail counts recipients over a rolling 24 hours, not per calendar day */
+export const QUOTA_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export interface QuotaSettings {
+  /** Recipients each account may reach per window; 500 for personal Gmail */
+  dailyLimit: number;
+  /** Minimum gap between two sends from the same account */
+  delaySeconds: number;
+  /** Up to this much extra random wait is added to every gap */
+  jitterSeconds: number;
+  /** How long a send can be undone before it starts, 5 to 30 */
+  undoSeconds: number;
+}
+
+export interface QuotaEntry {
+  from: string;
+  sentAt: string;
+  /** Recipients reached, counting Cc and Bcc */
+  count: number;
+}
+
+interface SendQuotaState {
+  /** Successful sends inside the window, oldest first */
+  sends: QuotaEntry[];
+  settings: QuotaSettings;
+  recordSend: (from: string, count: number) => void;
+  updateSettings: (patch: Partial<QuotaSettings>) => void;
+}
+
+type StoredQuota = Pick<SendQuotaState, "sends" | "settings">;
+
+const DEFAULT_SETTINGS: QuotaSettings = {
+  dailyLimit: 500,
+  delaySeconds: 2,
+  jitterSeconds: 3,
+  undoSeconds: 10,
+};
+
+const inWindow = (entry: QuotaEntry, now = Date.now()) =>
+  now - new Date(entry.sentAt).getTime() < QUOTA_WINDOW_MS;
+
+const persist = (data: StoredQuota) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  } catch (error) {
+    console.error("Failed to save send quota to localStorage:", error);
+  }
+};
+
+const loadQuota = (): StoredQuota => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const data: Partial<StoredQuota> = stored ? JSON.parse(stored) : {};
+    return {
+      sends: (data.sends ?? []).filter((entry) => inWindow(entry)),
+      settings: { ...DEFAULT_SETTINGS, ...data.settings },
+    };
+  } catch {
+    return { sends: [], settings: DEFAULT_SETTINGS };
+  }
+};
+
+/**
+ * Recipients one queued message counts against the quota
+ * @param {CopyRecipients} batch - The message's Cc and Bcc lists
+ * @returns {number} 1 for the recipient plus every copy
+ */
+export const getMessageCost = ({ cc, bcc }: CopyRecipients) =>
+  1 + cc.length + bcc.length;
+
+/**
+ * Recipients an account has reached inside the current window
+ * @param {QuotaEntry[]} sends - Entries from the store
+ * @param {string} from - Sender address
+ * @returns {number} Used quota
+ */
+export const getUsage = (sends: QuotaEntry[], from: string, now = Date.now()) =>
+  sends
+    .filter(
+      (entry) =>
+        entry.from.toLowerCase() === from.toLowerCase() && inWindow(entry, now),
+    )
+    .reduce((total, entry) => total + entry.count, 0);
+
+/**
+ * Works out when an account can next reach `needed` more recipients
+ * @param {QuotaEntry[]} sends - Entries from the store
+ * @param {string} from - Sender address
+ * @param {number} needed - Recipients about to be sent to
+ * @param {number} limit - Daily limit
+ * @returns {Date | null} When enough old sends leave the window, or null when
+ * there is room now
+ */
+export const getResumeAt = (
+  sends: QuotaEntry[],
+  from: string,
+  needed: number,
+  limit: number,
+  now = Date.now(),
+) => {
+  const entries = sends.filter(
+    (entry) =>
+      entry.from.toLowerCase() === from.toLowerCase() && inWindow(entry, now),
+  );
+  let excess =
+    entries.reduce((total, entry) => total + entry.count, 0) + needed - limit;
+  if (excess <= 0) return null;
+
+  for (const entry of entries) {
+    excess -= entry.count;
+    if (excess <= 0) {
+      return new Date(new Date(entry.sentAt).getTime() + QUOTA_WINDOW_MS);
+    }
+  }
+  return new Date(now + QUOTA_WINDOW_MS);
+};
+
+/**
+ * Picks the wait before an account's next send
+ * @param {QuotaSettings} settings - Throttle settings
+ * @returns {number} Delay plus random jitter, in milliseconds
+ */
+export const getThrottleDelay = ({
+  delaySeconds,
+  jitterSeconds,
+}: QuotaSettings) => (delaySeconds + Math.random() * jitterSeconds) * 1000;
+
+/**
+ * Zustand store for per-account send counts in a rolling 24-hour window and
+ * the throttle and undo settings the send queue follows.
+ */
+const useSendQuotaStore = create<SendQuotaState>()((set, get) => ({
+  ...loadQuota(),
+
+  /**
+   * Counts a successful send, dropping entries that have left the window.
+   */
+  recordSend: (from, count) => {
+    const data = {
+      sends: [
+        ...get().sends.filter((entry) => inWindow(entry)),
+        { from, sentAt: new Date().toISOString(), count },
+      ],
+      settings: get().settings,
+    };
+    persist(data);
+    set(data);
+  },
+
+  updateSettings: (patch) => {
+    const data = {
+      sends: get().sends,
+      settings: { ...get().settings, ...patch },
+    };
+    persist(data);
+    set(data);
+  },
+}));
+
+export default useSendQuotaStore;
@@ -0,0 +1,136 @@
+import { create } from "zustand";
+import { toast } from "sonner";
+import { v4 as uuidv4 } from "uuid";
+import useApplicationStore from "@/store/useApplicationStore";
+import type { VariantTag } from "@/utils/functions/abTest";
+
+const STORAGE_KEY = "sent-history";
+// Each entry keeps its full body, so the oldest unlinked ones are dropped
+// past this to leave localStorage room for the send queue
+const MAX_MESSAGES = 500;
+
+export interface SentMessage {
+  id: string;
+  sentAt: string;
+  from: string;
+  recipient: string;
+  cc?: string[];
+  bcc?: string[];
+  /** Rendered subject and bodies exactly as they were sent */
+  subject: string;
+  body: string;
+  html?: string;
+  attachmentNames: string[];
+  status: "sent" | "failed";
+  error?: string;
+  /** Set for emails sent by a follow-up sequence; step 0 is the initial email */
+  sequence?: { name: string; step: number };
+  /** Set for emails sent as part of an A/B test */
+  variant?: VariantTag;
+  /** Marked by hand, since Gmail reports neither back to the app */
+  openedAt?: string;
+  repliedAt?: string;
+}
+
+export type MessageOutcome = "opened" | "replied";
+
+interface SentHistoryState {
+  /** Sent messages, newest first */
+  messages: SentMessage[];
+  record: (message: Omit<SentMessage, "id" | "sentAt">) => string;
+  setOutcome: (id: string, outcome: MessageOutcome, reached: boolean) => void;
+  clearHistory: () => void;
+}
+
+const persist = (messages: SentMessage[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(messages));
+  } catch (error) {
+    console.error("Failed to save sent history to localStorage:", error);
+  }
+};
+
+const loadMessages = (): SentMessage[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Drops the oldest entries over the cap, except those an application or an
+// A/B test still counts, and tells the user when anything went
+const prune = (messages: SentMessage[]) => {
+  const excess = messages.length - MAX_MESSAGES;
+  if (excess <= 0) return messages;
+
+  const linkedIds = new Set(
+    useApplicationStore
+      .getState()
+      .applications.flatMap((application) => application.messageIds),
+  );
+  const dropped = new Set<string>();
+  for (let i = messages.length - 1; i >= 0 && dropped.size < excess; i--) {
+    const message = messages[i];
+    if (!message.variant && !linkedIds.has(message.id)) {
+      dropped.add(message.id);
+    }
+  }
+  if (dropped.size === 0) return messages;
+
+  toast.info("Older sent history was removed to free up storage", {
+    id: "sent-history-pruned",
+    description: "Emails linked to an application or A/B test are always kept.",
+  });
+  return messages.filter((message) => !dropped.has(message.id));
+};
+
+/**
+ * Zustand store for the record of the latest messages the send queue
+ * finished, successful or not.
+ */
+const useSentHistoryStore = create<SentHistoryState>()((set, get) => ({
+  messages: loadMessages(),
+
+  /**
+   * Adds a finished send to the history.
+   * @returns {string} The new entry id
+   */
+  record: (message) => {
+    const entry: SentMessage = {
+      ...message,
+      id: uuidv4(),
+      sentAt: new Date().toISOString(),
+    };
+    const messages = prune([entry, ...get().messages]);
+    persist(messages);
+    set({ messages });
+    return entry.id;
+  },
+
+  /**
+   * Marks or unmarks an email as opened or replied to, e.g. to score an A/B
+   * test.
+   */
+  setOutcome: (id, outcome, reached) => {
+    const key = outcome === "opened" ? "openedAt" : "repliedAt";
+    const messages = get().messages.map((message) =>
+      message.id === id
+        ? {
+            ...message,
+            [key]: reached ? new Date().toISOString() : undefined,
+          }
+        : message,
+    );
+    persist(messages);
+    set({ messages });
+  },
+
+  clearHistory: () => {
+    persist([]);
+    set({ messages: [] });
+  },
+}));
+
+export default useSentHistoryStore;
@@ -0,0 +1,269 @@
+import { create } from "zustand";
+import { v4 as uuidv4 } from "uuid";
+import type { MergeData } from "@/utils/functions/mergeFields";
+
+const STORAGE_KEY = "follow-up-sequences";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SequenceStep {
+  id: string;
+  templateId: string;
+  /** Days to wait after the previous email */
+  delayDays: number;
+}
+
+export interface Sequence {
+  id: string;
+  name: string;
+  /** Follow-ups sent after the initial email, in order */
+  steps: SequenceStep[];
+  createdAt: string;
+}
+
+export type ContactStatus =
+  | "active"
+  | "paused"
+  | "replied"
+  | "completed"
+  | "failed";
+
+export interface SequenceContact {
+  id: string;
+  sequenceId: string;
+  recipient: string;
+  from: string;
+  /** Merge data from the initial send, reused by every follow-up */
+  recipientData: MergeData;
+  status: ContactStatus;
+  /** Emails sent so far; 0 until the initial email goes out */
+  stepsSent: number;
+  /** When the next follow-up is due; null while one is waiting to be sent */
+  nextSendAt: string | null;
+  enrolledAt: string;
+  error?: string;
+}
+
+interface SequenceState {
+  sequences: Sequence[];
+  contacts: SequenceContact[];
+  saveSequence: (
+    sequence: Omit<Sequence, "id" | "createdAt">,
+    id?: string,
+  ) => string;
+  deleteSequence: (id: string) => void;
+  enroll: (
+    contact: Pick<
+      SequenceContact,
+      "sequenceId" | "recipient" | "from" | "recipientData"
+    >,
+  ) => string;
+  setContactStatus: (
+    id: string,
+    status: "active" | "paused" | "replied",
+  ) => void;
+  removeContact: (id: string) => void;
+  claimDueContacts: (now?: Date) => SequenceContact[];
+  recordStepSent: (id: string) => void;
+  recordStepFailed: (id: string, error: string) => void;
+  recordStepSkipped: (id: string) => void;
+  recordStepRetried: (id: string) => void;
+}
+
+type StoredSequences = Pick<SequenceState, "sequences" | "contacts">;
+
+const persist = (data: StoredSequences) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  } catch (error) {
+    console.error("Failed to save sequences to localStorage:", error);
+  }
+};
+
+const loadSequences = (): StoredSequences => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : { sequences: [], contacts: [] };
+  } catch {
+    return { sequences: [], contacts: [] };
+  }
+};
+
+/**
+ * Zustand store for follow-up sequences and the contacts going through them.
+ * A contact gets the next step once its delay has passed, unless it has been
+ * paused or marked as replied.
+ */
+const useSequenceStore = create<SequenceState>()((set, get) => {
+  const update = (data: Partial<StoredSequences>) => {
+    const next = {
+      sequences: data.sequences ?? get().sequences,
+      contacts: data.contacts ?? get().contacts,
+    };
+    persist(next);
+    set(next);
+  };
+
+  const updateContact = (id: string, patch: Partial<SequenceContact>) =>
+    update({
+      contacts: get().contacts.map((contact) =>
+        contact.id === id ? { ...contact, ...patch } : contact,
+      ),
+    });
+
+  // When the follow-up after `stepsSent` emails is due, or null when done
+  const getNextSendAt = (contact: SequenceContact, from = new Date()) => {
+    const sequence = get().sequences.find(
+      (item) => item.id === contact.sequenceId,
+    );
+    const step = sequence?.steps[contact.stepsSent - 1];
+    return step
+      ? new Date(from.getTime() + step.delayDays * DAY_MS).toISOString()
+      : null;
+  };
+
+  return {
+    ...loadSequences(),
+
+    /**
+     * Creates a sequence, or replaces the name and steps of an existing one.
+     * @returns {string} The sequence id
+     */
+    saveSequence: (sequence, id) => {
+      if (id) {
+        update({
+          sequences: get().sequences.map((item) =>
+            item.id === id ? { ...item, ...sequence } : item,
+          ),
+        });
+        return id;
+      }
+      const created: Sequence = {
+        ...sequence,
+        id: uuidv4(),
+        createdAt: new Date().toISOString(),
+      };
+      update({ sequences: [...get().sequences, created] });
+      return created.id;
+    },
+
+    /**
+     * Deletes a sequence along with its contacts.
+     */
+    deleteSequence: (id) =>
+      update({
+        sequences: get().sequences.filter((sequence) => sequence.id !== id),
+        contacts: get().contacts.filter((contact) => contact.sequenceId !== id),
+      }),
+
+    /**
+     * Adds a contact whose initial email is about to be queued.
+     * @returns {string} The contact id, carried by the queued email
+     */
+    enroll: (contact) => {
+      const id = uuidv4();
+      update({
+        contacts: [
+          ...get().contacts,
+          {
+            ...contact,
+            id,
+            status: "active",
+            stepsSent: 0,
+            nextSendAt: null,
+            enrolledAt: new Date().toISOString(),
+          },
+        ],
+      });
+      return id;
+    },
+
+    /**
+     * Pauses, resumes or stops a contact. Resuming a contact whose follow-up
+     * came due while paused sends it on the next run.
+     */
+    setContactStatus: (id, status) => updateContact(id, { status }),
+
+    removeContact: (id) =>
+      update({
+        contacts: get().contacts.filter((contact) => contact.id !== id),
+      }),
+
+    /**
+     * Takes the active contacts whose next follow-up is due, clearing their
+     * due date so a second run does not send it twice.
+     * @returns {SequenceContact[]} Contacts to queue a follow-up for
+     */
+    claimDueContacts: (now = new Date()) => {
+      const due = get().contacts.filter(
+        (contact) =>
+          contact.status === "active" &&
+          contact.nextSendAt !== null &&
+          new Date(contact.nextSendAt) <= now,
+      );
+      if (due.length > 0) {
+        const ids = due.map((contact) => contact.id);
+        update({
+          contacts: get().contacts.map((contact) =>
+            ids.includes(contact.id)
+              ? { ...contact, nextSendAt: null }
+              : contact,
+          ),
+        });
+      }
+      return due;
+    },
+
+    /**
+     * Moves a contact on after one of its emails was sent.
+     */
+    recordStepSent: (id) => {
+      const contact = get().contacts.find((item) => item.id === id);
+      if (!contact) return;
+      const sent = { ...contact, stepsSent: contact.stepsSent + 1 };
+      const nextSendAt = getNextSendAt(sent);
+      updateContact(id, {
+        stepsSent: sent.stepsSent,
+        nextSendAt,
+        error: undefined,
+        status:
+          nextSendAt || contact.status === "replied"
+            ? contact.status
+            : "completed",
+      });
+    },
+
+    /**
+     * Stops a contact whose email failed; resuming it retries that email,
+     * from the send queue when it was the initial one.
+     */
+    recordStepFailed: (id, error) =>
+      updateContact(id, {
+        status: "failed",
+        error,
+        nextSendAt: new Date().toISOString(),
+      }),
+
+    /**
+     * Puts back a follow-up that was dropped from the queue because the
+     * contact was paused or replied, so resuming sends it.
+     */
+    recordStepSkipped: (id) =>
+      updateContact(id, { nextSendAt: new Date().toISOString() }),
+
+    /**
+     * Reactivates a contact whose failed email was put back in the send
+     * queue, without scheduling that email a second time.
+     */
+    recordStepRetried: (id) => {
+      const contact = get().contacts.find((item) => item.id === id);
+      if (contact?.status !== "failed") return;
+      updateContact(id, {
+        status: "active",
+        nextSendAt: null,
+        error: undefined,
+      });
+    },
+  };
+});
+
+export default useSequenceStore;
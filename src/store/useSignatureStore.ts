@@ -0,0 +1,84 @@
+import { create } from "zustand";
+
+const STORAGE_KEY = "signatures";
+
+export interface Signature {
+  /** Lower-cased sender address; re-adding the account keeps its signature */
+  email: string;
+  /** Editor HTML; the plain-text part is derived from it on send */
+  html: string;
+  /**
+   * Hosted URL of the cropped avatar, or empty for none. Older versions saved
+   * a data URL, which `hostInlinedAvatars` replaces.
+   */
+  avatarUrl: string;
+  updatedAt: string;
+}
+
+export type SignatureValues = Pick<Signature, "html" | "avatarUrl">;
+
+interface SignatureState {
+  signatures: Signature[];
+  saveSignature: (email: string, values: SignatureValues) => void;
+  deleteSignature: (email: string) => void;
+  getSignature: (email: string) => Signature | undefined;
+}
+
+const persist = (signatures: Signature[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(signatures));
+  } catch (error) {
+    console.error("Failed to save signatures to localStorage:", error);
+  }
+};
+
+const loadSignatures = (): Signature[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Zustand store for one signature per sender account, appended to every
+ * email the account sends unless the compose form overrides it.
+ */
+const useSignatureStore = create<SignatureState>()((set, get) => ({
+  signatures: loadSignatures(),
+
+  /**
+   * Creates or replaces an account's signature.
+   */
+  saveSignature: (email, values) => {
+    const signature: Signature = {
+      ...values,
+      email: email.toLowerCase(),
+      updatedAt: new Date().toISOString(),
+    };
+    const signatures = [
+      ...get().signatures.filter((item) => item.email !== signature.email),
+      signature,
+    ];
+    persist(signatures);
+    set({ signatures });
+  },
+
+  deleteSignature: (email) => {
+    const signatures = get().signatures.filter(
+      (item) => item.email !== email.toLowerCase(),
+    );
+    persist(signatures);
+    set({ signatures });
+  },
+
+  /**
+   * Looks up the signature for a sender address.
+   * @returns {Signature | undefined} The signature, if one was saved
+   */
+  getSignature: (email) =>
+    get().signatures.find((item) => item.email === email.toLowerCase()),
+}));
+
+export default useSignatureStore;
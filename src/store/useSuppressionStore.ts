@@ -0,0 +1,54 @@
+import { create } from "zustand";
+
+const STORAGE_KEY = "suppression-list";
+
+interface SuppressionState {
+  /** Lower-cased addresses that must never be mailed */
+  addresses: string[];
+  suppress: (addresses: string[]) => void;
+  unsuppress: (address: string) => void;
+}
+
+const persist = (addresses: string[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(addresses));
+  } catch (error) {
+    console.error("Failed to save suppression list to localStorage:", error);
+  }
+};
+
+const loadAddresses = (): string[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Zustand store for the local suppression list, e.g. people who asked not to
+ * be contacted again.
+ */
+const useSuppressionStore = create<SuppressionState>()((set, get) => ({
+  addresses: loadAddresses(),
+
+  suppress: (addresses) => {
+    const next = Array.from(
+      new Set([
+        ...get().addresses,
+        ...addresses.map((address) => address.trim().toLowerCase()),
+      ]),
+    );
+    persist(next);
+    set({ addresses: next });
+  },
+
+  unsuppress: (address) => {
+    const next = get().addresses.filter((item) => item !== address);
+    persist(next);
+    set({ addresses: next });
+  },
+}));
+
+export default useSuppressionStore;
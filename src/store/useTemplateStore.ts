@@ -0,0 +1,297 @@
+import { create } from "zustand";
+import { v4 as uuidv4 } from "uuid";
+import { templates as starterTemplates } from "@/utils/constants/index";
+import useAttachmentStore from "@/store/useAttachmentStore";
+import type { StoredFile } from "@/utils/functions/fileDataUrl";
+
+const STORAGE_KEY = "email-templates";
+// Single draft the compose page used to keep before the template library
+const LEGACY_DRAFT_KEY = "email-form-data";
+// Older versions beyond this are dropped to keep localStorage small
+const MAX_VERSIONS = 50;
+
+export interface EmailTemplate {
+  id: string;
+  name: string;
+  subject: string;
+  body: string;
+  /** Library attachments selected by default when the template is picked */
+  attachmentIds: string[];
+  updatedAt: string;
+  /** Saved states, oldest first; the last one matches the template */
+  versions: TemplateVersion[];
+}
+
+export type TemplateContent = Pick<
+  EmailTemplate,
+  "subject" | "body" | "attachmentIds"
+>;
+
+export interface TemplateVersion extends TemplateContent {
+  id: string;
+  savedAt: string;
+}
+
+interface TemplateState {
+  templates: EmailTemplate[];
+  activeTemplateId: string;
+  setActiveTemplate: (id: string) => void;
+  createTemplate: (name: string) => string;
+  renameTemplate: (id: string, name: string) => void;
+  duplicateTemplate: (id: string) => string;
+  deleteTemplate: (id: string) => void;
+  saveTemplate: (id: string, content: TemplateContent) => void;
+  restoreVersion: (
+    id: string,
+    versionId: string,
+  ) => TemplateVersion | undefined;
+}
+
+type StoredTemplates = Pick<TemplateState, "templates" | "activeTemplateId">;
+
+const persist = (data: StoredTemplates) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  } catch (error) {
+    console.error("Failed to save templates to localStorage:", error);
+  }
+};
+
+const toVersion = (
+  { subject, body, attachmentIds }: TemplateContent,
+  savedAt = new Date().toISOString(),
+): TemplateVersion => ({
+  id: uuidv4(),
+  subject,
+  body,
+  attachmentIds,
+  savedAt,
+});
+
+// Records new content as the latest version. Templates from before version
+// history get their pre-save state kept as the first version.
+const addVersion = (
+  template: EmailTemplate,
+  content: TemplateContent,
+): EmailTemplate => {
+  const versions =
+    template.versions.length > 0
+      ? template.versions
+      : [toVersion(template, template.updatedAt)];
+  const version = toVersion(content);
+  return {
+    ...template,
+    subject: version.subject,
+    body: version.body,
+    attachmentIds: version.attachmentIds,
+    updatedAt: version.savedAt,
+    versions: [...versions, version].slice(-MAX_VERSIONS),
+  };
+};
+
+const getStarterTemplates = (): EmailTemplate[] =>
+  starterTemplates.map(({ id, name, subject, body }) => ({
+    id: `starter-${id}`,
+    name,
+    subject,
+    body,
+    attachmentIds: [],
+    updatedAt: new Date().toISOString(),
+    versions: [],
+  }));
+
+const importAttachment = (storedFile: StoredFile) =>
+  useAttachmentStore.getState().importStoredFile(storedFile);
+
+// Turns the old single draft into the first template so nothing is lost
+const migrateLegacyDraft = (): EmailTemplate | null => {
+  try {
+    const stored = localStorage.getItem(LEGACY_DRAFT_KEY);
+    const draft = stored ? JSON.parse(stored) : null;
+    if (!draft?.subject || !draft?.body) return null;
+
+    return {
+      id: uuidv4(),
+      name: "My Template",
+      subject: draft.subject,
+      body: draft.body,
+      attachmentIds:
+        draft.resumeData && draft.resumeName
+          ? [
+              importAttachment({
+                name: draft.resumeName,
+                type: "application/pdf",
+                size: Math.round((draft.resumeData.length * 3) / 4),
+                dataUrl: draft.resumeData,
+              }),
+            ]
+          : [],
+      updatedAt: new Date().toISOString(),
+      versions: [],
+    };
+  } catch {
+    return null;
+  }
+};
+
+// Templates saved before the attachment library kept their files inline,
+// and ones saved before version history have no versions
+type LegacyTemplate = Omit<EmailTemplate, "attachmentIds" | "versions"> & {
+  attachmentIds?: string[];
+  attachments?: StoredFile[];
+  versions?: TemplateVersion[];
+};
+
+const migrateTemplate = ({
+  attachments = [],
+  attachmentIds,
+  versions = [],
+  ...template
+}: LegacyTemplate): EmailTemplate => ({
+  ...template,
+  attachmentIds: attachmentIds ?? attachments.map(importAttachment),
+  versions,
+});
+
+const loadTemplates = (): StoredTemplates => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const data = JSON.parse(stored);
+      const templates = data.templates.map(migrateTemplate);
+      persist({ ...data, templates });
+      return { ...data, templates };
+    }
+  } catch {
+    // Fall through to a fresh library
+  }
+
+  const legacy = migrateLegacyDraft();
+  const templates = legacy
+    ? [legacy, ...getStarterTemplates()]
+    : getStarterTemplates();
+  const data = { templates, activeTemplateId: templates[0].id };
+  persist(data);
+  return data;
+};
+
+/**
+ * Zustand store for the named email template library.
+ */
+const useTemplateStore = create<TemplateState>()((set, get) => {
+  const update = (data: Partial<StoredTemplates>) => {
+    const next = {
+      templates: data.templates ?? get().templates,
+      activeTemplateId: data.activeTemplateId ?? get().activeTemplateId,
+    };
+    persist(next);
+    set(next);
+  };
+
+  return {
+    ...loadTemplates(),
+
+    /**
+     * Picks the template the compose form works on.
+     */
+    setActiveTemplate: (id) => update({ activeTemplateId: id }),
+
+    /**
+     * Creates an empty template and makes it active.
+     * @returns {string} The new template id
+     */
+    createTemplate: (name) => {
+      const template: EmailTemplate = {
+        id: uuidv4(),
+        name,
+        subject: "",
+        body: "",
+        attachmentIds: [],
+        updatedAt: new Date().toISOString(),
+        versions: [],
+      };
+      update({
+        templates: [...get().templates, template],
+        activeTemplateId: template.id,
+      });
+      return template.id;
+    },
+
+    renameTemplate: (id, name) =>
+      update({
+        templates: get().templates.map((template) =>
+          template.id === id ? { ...template, name } : template,
+        ),
+      }),
+
+    /**
+     * Copies a template (content and default attachments) and makes the copy
+     * active.
+     * @returns {string} The copy's id
+     */
+    duplicateTemplate: (id) => {
+      const source = get().templates.find((template) => template.id === id);
+      if (!source) return id;
+
+      const copy: EmailTemplate = {
+        ...source,
+        id: uuidv4(),
+        name: `${source.name} (Copy)`,
+        updatedAt: new Date().toISOString(),
+        versions: [],
+      };
+      update({
+        templates: [...get().templates, copy],
+        activeTemplateId: copy.id,
+      });
+      return copy.id;
+    },
+
+    /**
+     * Deletes a template. The last remaining template cannot be deleted.
+     */
+    deleteTemplate: (id) => {
+      const templates = get().templates.filter(
+        (template) => template.id !== id,
+      );
+      if (templates.length === 0) return;
+
+      update({
+        templates,
+        activeTemplateId:
+          get().activeTemplateId === id
+            ? templates[0].id
+            : get().activeTemplateId,
+      });
+    },
+
+    /**
+     * Overwrites a template's subject, body and default attachments, keeping
+     * the result as a new version.
+     */
+    saveTemplate: (id, content) =>
+      update({
+        templates: get().templates.map((template) =>
+          template.id === id ? addVersion(template, content) : template,
+        ),
+      }),
+
+    /**
+     * Brings back an earlier version's content. The restore is saved as a
+     * new version, so it can be undone the same way.
+     * @returns {TemplateVersion | undefined} The restored version
+     */
+    restoreVersion: (id, versionId) => {
+      const version = get()
+        .templates.find((template) => template.id === id)
+        ?.versions.find((item) => item.id === versionId);
+      if (!version) return undefined;
+
+      const { subject, body, attachmentIds } = version;
+      get().saveTemplate(id, { subject, body, attachmentIds });
+      return version;
+    },
+  };
+});
+
+export default useTemplateStore;
@@ -0,0 +1,13 @@
+import type { CopyRecipients } from "@/store/useSendQueueStore";
+import type { MessageContent } from "@/utils/functions/renderMessages";
+
+export interface ScheduledEmail extends MessageContent, CopyRecipients {
+  id: string;
+  createdAt: string;
+  /** ISO timestamp the job is due */
+  sendAt: string;
+  from: string;
+  attachmentIds: string[];
+}
+
+export type ScheduledEmailInput = Omit<ScheduledEmail, "id" | "createdAt">;
@@ -1,12 +1,18 @@
 const isTesting = import.meta.env.VITE_TESTING === "true";
 const permissionBased = import.meta.env.VITE_PERMISSION_BASED !== "false";
 const devMode = import.meta.env.DEV;
+// Scheduled emails are kept in the browser until the backend endpoint is set up
+const mockScheduler = import.meta.env.VITE_MOCK_SCHEDULER !== "false";
 const globalDateInputFormat = "yyyy-MM-dd'T'HH:mm:ss";
 const globalDateDisplayFormat = "PPP";
+// Gmail rejects messages whose attachments add up to more than 25 MB
+const gmailAttachmentLimit = 25 * 1024 * 1024;
 export {
   isTesting,
   permissionBased,
   devMode,
+  mockScheduler,
   globalDateDisplayFormat,
   globalDateInputFormat,
+  gmailAttachmentLimit,
 };
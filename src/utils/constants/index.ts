@@ -2142,76 +2142,81 @@ const news = [
     date: "2024-04-25",
   },
 ];
+// Starter templates seeded into the template library on first use
 const templates = [
   {
     id: 1,
-    templateTitle: "Birthday Wishes",
-    templateName: "Happy Birthday to You!",
-    content:
-      "Wishing you a day filled with love, laughter, and joy. Happy Birthday!",
+    name: "ReactJS Developer Application",
+    subject: "ReactJS Developer Application",
+    body: `Dear Hiring Manager,
+
+I am writing to express my interest in the ReactJS Developer position. 
+
+With my experience in modern React development and related technologies, I believe I would be a great fit for your team.
+
+Please find my resume attached for your consideration.
+
+Best regards,`,
   },
   {
     id: 2,
-    templateTitle: "Birthday Greetings",
-    templateName: "Another Year Older",
-    content:
-      "Cheers to another trip around the sun! May your birthday be as amazing as you are.",
+    name: "Birthday Wishes",
+    subject: "Happy Birthday to You!",
+    body: "Wishing you a day filled with love, laughter, and joy. Happy Birthday!",
   },
   {
     id: 3,
-    templateTitle: "Birthday Celebration",
-    templateName: "Let's Party!",
-    content:
-      "It's time to celebrate! Wishing you a fantastic birthday filled with fun and excitement.",
+    name: "Birthday Greetings",
+    subject: "Another Year Older",
+    body: "Cheers to another trip around the sun! May your birthday be as amazing as you are.",
   },
   {
     id: 4,
-    templateTitle: "Birthday Blessings",
-    templateName: "Blessings on Your Special Day",
-    content:
-      "May this birthday bring you abundant happiness and blessings. Enjoy your special day!",
+    name: "Birthday Celebration",
+    subject: "Let's Party!",
+    body: "It's time to celebrate! Wishing you a fantastic birthday filled with fun and excitement.",
   },
   {
     id: 5,
-    templateTitle: "Birthday Joy",
-    templateName: "Wishing You Joy and Laughter",
-    content:
-      "Sending you lots of joy and laughter on your birthday. Have a blast!",
+    name: "Birthday Blessings",
+    subject: "Blessings on Your Special Day",
+    body: "May this birthday bring you abundant happiness and blessings. Enjoy your special day!",
   },
   {
     id: 6,
-    templateTitle: "Birthday Fun",
-    templateName: "Let's Have Some Fun!",
-    content:
-      "Birthdays are for making memories and having fun. Let's make this one unforgettable!",
+    name: "Birthday Joy",
+    subject: "Wishing You Joy and Laughter",
+    body: "Sending you lots of joy and laughter on your birthday. Have a blast!",
   },
   {
     id: 7,
-    templateTitle: "Birthday Adventure",
-    templateName: "Embark on an Adventure",
-    content:
-      "It's your special day, so let's embark on an adventure together! Wishing you excitement and joy.",
+    name: "Birthday Fun",
+    subject: "Let's Have Some Fun!",
+    body: "Birthdays are for making memories and having fun. Let's make this one unforgettable!",
   },
   {
     id: 8,
-    templateTitle: "Birthday Dreams",
-    templateName: "Dream Big on Your Birthday",
-    content:
-      "On your birthday, dream big and reach for the stars. May all your dreams come true!",
+    name: "Birthday Adventure",
+    subject: "Embark on an Adventure",
+    body: "It's your special day, so let's embark on an adventure together! Wishing you excitement and joy.",
   },
   {
     id: 9,
-    templateTitle: "Birthday Magic",
-    templateName: "A Touch of Birthday Magic",
-    content:
-      "May your birthday be filled with magic and wonder, just like you! Enjoy every moment.",
+    name: "Birthday Dreams",
+    subject: "Dream Big on Your Birthday",
+    body: "On your birthday, dream big and reach for the stars. May all your dreams come true!",
   },
   {
     id: 10,
-    templateTitle: "Birthday Cheers",
-    templateName: "Cheers to You!",
-    content:
-      "Raising a toast to you on your birthday! May this year be filled with happiness and success.",
+    name: "Birthday Magic",
+    subject: "A Touch of Birthday Magic",
+    body: "May your birthday be filled with magic and wonder, just like you! Enjoy every moment.",
+  },
+  {
+    id: 11,
+    name: "Birthday Cheers",
+    subject: "Cheers to You!",
+    body: "Raising a toast to you on your birthday! May this year be filled with happiness and success.",
   },
 ];
 // 1. Fix Sort order in Partners. List in order (Hotels; Dining; Entertainment; Leisure; Spa, Pool & Beach; Retail; More Partners)
@@ -0,0 +1,193 @@
+import type { SentMessage } from "@/store/useSentHistoryStore";
+import { htmlToPlainText } from "@/utils/functions/emailHtml";
+
+/**
+ * Splits a send between subject/body variants and compares how each did
+ * @module abTest
+ */
+
+/** The compose form's A/B test section */
+export interface ABTestSettings {
+  enabled: boolean;
+  name: string;
+  split: "random" | "ratio";
+  /** Share of recipients for variant A, the compose form's own content */
+  weight: number;
+  /** Variants B, C...; a blank subject or body keeps variant A's */
+  variants: { id: string; subject: string; body: string; weight: number }[];
+}
+
+export interface VariantContent {
+  subject: string;
+  /** HTML body with merge placeholders */
+  body: string;
+  weight: number;
+}
+
+export const DEFAULT_AB_TEST: ABTestSettings = {
+  enabled: false,
+  name: "",
+  split: "random",
+  weight: 1,
+  variants: [],
+};
+
+/** Which test and variant one recipient's email belonged to */
+export interface VariantTag {
+  testId: string;
+  testName: string;
+  /** "A" for the compose form's own subject and body, then "B", "C"... */
+  label: string;
+}
+
+export interface VariantResult {
+  label: string;
+  /** Subject of the first email sent with this variant */
+  subject: string;
+  sent: number;
+  /** A reply counts as an open too */
+  opened: number;
+  replied: number;
+  openRate: number;
+  replyRate: number;
+}
+
+export interface TestResult {
+  testId: string;
+  testName: string;
+  startedAt: string;
+  variants: VariantResult[];
+  /** Sent emails in the test, newest first, for recording outcomes */
+  messages: SentMessage[];
+}
+
+/**
+ * Letter shown for a variant
+ * @param {number} index - Position, 0 for the compose form's content
+ * @returns {string} "A", "B", ...
+ */
+export const variantLabel = (index: number) => String.fromCharCode(65 + index);
+
+/**
+ * Content and split weight of every variant
+ * @param {ABTestSettings} test - The form's A/B test section
+ * @param {Omit<VariantContent, "weight">} base - Variant A's subject and body
+ * @returns {VariantContent[]} Variant A, then the others with blank fields
+ * filled from A; weights are all 1 for an even split
+ */
+export const getVariants = (
+  test: ABTestSettings,
+  base: Omit<VariantContent, "weight">,
+): VariantContent[] =>
+  [
+    { ...base, weight: test.weight },
+    ...test.variants.map((variant) => ({
+      subject: variant.subject.trim() ? variant.subject : base.subject,
+      body: htmlToPlainText(variant.body).trim() ? variant.body : base.body,
+      weight: variant.weight,
+    })),
+  ].map((variant) => ({
+    ...variant,
+    weight: test.split === "ratio" ? variant.weight : 1,
+  }));
+
+// Fisher-Yates on a copy
+const shuffle = <T>(items: T[], random: () => number) => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+/**
+ * Randomly splits recipients between variants in proportion to their weights.
+ * Group sizes follow the ratio as closely as whole recipients allow, so
+ * equal weights give an even split.
+ * @param {T[]} recipients - Everyone the email goes to
+ * @param {number[]} weights - One positive weight per variant
+ * @param {() => number} [random] - Source of randomness, for repeatable splits
+ * @returns {T[][]} One group of recipients per variant, in variant order
+ */
+export function splitRecipients<T>(
+  recipients: T[],
+  weights: number[],
+  random: () => number = Math.random,
+): T[][] {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const shares = weights.map((weight) => (recipients.length * weight) / total);
+  const counts = shares.map(Math.floor);
+
+  // Hand the recipients lost to rounding to the largest remainders
+  let left = recipients.length - counts.reduce((sum, count) => sum + count, 0);
+  shares
+    .map((share, index) => ({ index, remainder: share - counts[index] }))
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach(({ index }) => {
+      if (left-- > 0) counts[index]++;
+    });
+
+  const shuffled = shuffle(recipients, random);
+  let start = 0;
+  return counts.map((count) => shuffled.slice(start, (start += count)));
+}
+
+const rate = (count: number, total: number) => (total ? count / total : 0);
+
+/**
+ * Groups sent history by test and counts each variant's outcomes
+ * @param {SentMessage[]} messages - Sent history, newest first
+ * @returns {TestResult[]} Tests, most recent first, variants in label order
+ */
+export function summarizeTests(messages: SentMessage[]): TestResult[] {
+  const tests = new Map<string, TestResult>();
+
+  messages.forEach((message) => {
+    const { variant } = message;
+    if (!variant || message.status !== "sent") return;
+
+    const test = tests.get(variant.testId) ?? {
+      testId: variant.testId,
+      testName: variant.testName,
+      startedAt: message.sentAt,
+      variants: [],
+      messages: [],
+    };
+    tests.set(variant.testId, test);
+    test.startedAt =
+      message.sentAt < test.startedAt ? message.sentAt : test.startedAt;
+    test.messages.push(message);
+
+    let result = test.variants.find(({ label }) => label === variant.label);
+    if (!result) {
+      result = {
+        label: variant.label,
+        subject: message.subject,
+        sent: 0,
+        opened: 0,
+        replied: 0,
+        openRate: 0,
+        replyRate: 0,
+      };
+      test.variants.push(result);
+    }
+    result.subject = message.subject;
+    result.sent++;
+    if (message.openedAt || message.repliedAt) result.opened++;
+    if (message.repliedAt) result.replied++;
+  });
+
+  return Array.from(tests.values())
+    .map((test) => ({
+      ...test,
+      variants: test.variants
+        .map((result) => ({
+          ...result,
+          openRate: rate(result.opened, result.sent),
+          replyRate: rate(result.replied, result.sent),
+        }))
+        .sort((a, b) => a.label.localeCompare(b.label)),
+    }))
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
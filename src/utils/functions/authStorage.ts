@@ -0,0 +1,22 @@
+/**
+ * Session storage helpers
+ * @module authStorage
+ *
+ * Logging out only removes the session keys. Queued sends, scheduled emails,
+ * templates and history stay in localStorage so they are still there after
+ * the next login.
+ *
+ * The encrypted sender accounts ("vault", "sender-accounts") are kept too:
+ * they cannot be read without the passphrase, and the key only lives in
+ * memory, so the reload that follows a lost session locks them.
+ */
+
+/** localStorage keys that belong to the logged-in session */
+export const SESSION_KEYS = ["accessToken", "refreshToken", "data"];
+
+/**
+ * Removes the session tokens and user data from localStorage.
+ */
+export function clearSession() {
+  SESSION_KEYS.forEach((key) => localStorage.removeItem(key));
+}
@@ -0,0 +1,63 @@
+/**
+ * Minimal IndexedDB key-value store for files too large for localStorage
+ * @module blobStorage
+ */
+
+const DB_NAME = "email-sender";
+const STORE_NAME = "blobs";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest,
+): Promise<T> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = action(
+      db.transaction(STORE_NAME, mode).objectStore(STORE_NAME),
+    );
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Saves a Blob under a key, replacing any existing value
+ * @param {string} key - Storage key
+ * @param {Blob} blob - Content to store
+ */
+export const putBlob = (key: string, blob: Blob) =>
+  run<IDBValidKey>("readwrite", (store) => store.put(blob, key));
+
+/**
+ * Reads a Blob by key
+ * @param {string} key - Storage key
+ * @returns {Promise<Blob | undefined>} The stored Blob, if any
+ */
+export const getBlob = (key: string) =>
+  run<Blob | undefined>("readonly", (store) => store.get(key));
+
+/**
+ * Removes a Blob by key
+ * @param {string} key - Storage key
+ */
+export const deleteBlob = (key: string) =>
+  run<undefined>("readwrite", (store) => store.delete(key));
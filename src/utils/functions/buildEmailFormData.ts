@@ -0,0 +1,98 @@
+import type { CopyRecipients } from "@/store/useSendQueueStore";
+import {
+  renderMessages,
+  type MessageContent,
+} from "@/utils/functions/renderMessages";
+
+const appendCopyRecipients = (
+  formData: FormData,
+  { cc = [], bcc = [], replyTo = [] }: Partial<CopyRecipients>,
+) => {
+  if (cc.length > 0) formData.append("cc", cc.join(","));
+  if (bcc.length > 0) formData.append("bcc", bcc.join(","));
+  if (replyTo.length > 0) formData.append("reply_to", replyTo.join(","));
+};
+
+/**
+ * Builds the multipart payload expected by `endPoint.sendEmail`
+ * @param {Object} message - Message to send
+ * @param {string} message.email - Sender Gmail address
+ * @param {string} message.password - Sender app password
+ * @param {string[]} message.recipients - To addresses
+ * @param {string[]} [message.cc] - Cc addresses
+ * @param {string[]} [message.bcc] - Bcc addresses
+ * @param {string[]} [message.replyTo] - Reply-To addresses, sent as `reply_to`
+ * @param {string} message.subject - Rendered subject
+ * @param {string} message.body - Rendered plain-text body
+ * @param {string} [message.html] - Rendered HTML body; the plain-text body is
+ * sent alongside it as the multipart alternative
+ * @param {File[]} [message.attachments] - Files, sent as repeated `attachments`
+ * @returns {FormData} Payload for `SendEmailAPI`
+ */
+export const buildEmailFormData = ({
+  email,
+  password,
+  recipients,
+  subject,
+  body,
+  html,
+  attachments = [],
+  ...copies
+}: {
+  email: string;
+  password: string;
+  recipients: string[];
+  subject: string;
+  body: string;
+  html?: string;
+  attachments?: File[];
+} & Partial<CopyRecipients>) => {
+  const formData = new FormData();
+  formData.append("email", email);
+  formData.append("app_password", password);
+  formData.append("recipients", recipients.join(","));
+  appendCopyRecipients(formData, copies);
+  formData.append("subject", subject);
+  formData.append("body", body);
+  if (html) formData.append("html", html);
+  attachments.forEach((file) => formData.append("attachments", file));
+  return formData;
+};
+
+/**
+ * Builds the multipart payload expected by `endPoint.scheduledEmails`
+ * @param {Object} job - Job to hand to the backend
+ * @param {string} job.email - Sender Gmail address
+ * @param {string} job.password - Sender app password
+ * @param {string} job.sendAt - ISO timestamp to send at
+ * @param {MessageContent} job.content - Compose content, kept for editing
+ * @param {string[]} [job.cc] - Cc addresses
+ * @param {string[]} [job.bcc] - Bcc addresses
+ * @param {string[]} [job.replyTo] - Reply-To addresses, sent as `reply_to`
+ * @param {File[]} [job.attachments] - Files, sent as repeated `attachments`
+ * @returns {FormData} Payload for `ScheduleEmailAPI`
+ */
+export const buildScheduledEmailFormData = ({
+  email,
+  password,
+  sendAt,
+  content,
+  attachments = [],
+  ...copies
+}: {
+  email: string;
+  password: string;
+  sendAt: string;
+  content: MessageContent;
+  attachments?: File[];
+} & Partial<CopyRecipients>) => {
+  const formData = new FormData();
+  formData.append("email", email);
+  formData.append("app_password", password);
+  formData.append("send_at", sendAt);
+  appendCopyRecipients(formData, copies);
+  formData.append("content", JSON.stringify(content));
+  formData.append("messages", JSON.stringify(renderMessages(content)));
+  attachments.forEach((file) => formData.append("attachments", file));
+  return formData;
+};
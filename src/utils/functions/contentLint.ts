@@ -0,0 +1,185 @@
+import { htmlToPlainText } from "@/utils/functions/emailHtml";
+
+/**
+ * Local spam-trigger and content checks for an outgoing message
+ * @module contentLint
+ *
+ * Nothing here blocks a send; the checks point out what commonly gets a
+ * message filtered or ignored.
+ */
+
+export interface LintWarning {
+  message: string;
+  /** Points this adds to the spam score */
+  weight: number;
+}
+
+export interface ContentLint {
+  subject: LintWarning[];
+  body: LintWarning[];
+  /** 0 to 100; higher means more likely to land in spam */
+  score: number;
+}
+
+// Phrases spam filters weigh heavily, matched case-insensitively
+const SPAM_PHRASES = [
+  "100% free",
+  "act now",
+  "amazing offer",
+  "buy now",
+  "cash bonus",
+  "click here",
+  "congratulations",
+  "dear friend",
+  "double your",
+  "earn money",
+  "extra income",
+  "free money",
+  "guaranteed",
+  "limited time",
+  "make money",
+  "no obligation",
+  "once in a lifetime",
+  "order now",
+  "risk-free",
+  "special promotion",
+  "urgent",
+  "winner",
+];
+
+const GREETING_PATTERN =
+  /^(hi|hello|hey|dear|greetings|good (morning|afternoon|evening))\b/i;
+
+const SIGN_OFF_PATTERN =
+  /\b(regards|best|thanks|thank you|sincerely|cheers|yours|warmly)\b/i;
+
+const URL_PATTERN = /(https?:\/\/|www\.)[^\s)]+/gi;
+
+const MAX_LINKS = 3;
+const MAX_EXCLAMATIONS = 3;
+const MIN_WORDS = 25;
+
+const findSpamPhrases = (text: string) => {
+  const lower = text.toLowerCase();
+  return SPAM_PHRASES.filter((phrase) => lower.includes(phrase));
+};
+
+// Share of letters that are upper case, ignoring very short text
+const isMostlyCaps = (text: string) => {
+  const letters = text.replace(/\{\{[^}]*\}\}/g, "").match(/[a-z]/gi) || [];
+  const upper = letters.filter((letter) => letter === letter.toUpperCase());
+  return letters.length >= 6 && upper.length / letters.length > 0.7;
+};
+
+const bySeverity = (a: LintWarning, b: LintWarning) => b.weight - a.weight;
+
+/**
+ * Checks a subject line
+ * @param {string} subject - Subject, placeholders included
+ * @returns {LintWarning[]} Problems found, most serious first
+ */
+export function lintSubject(subject: string): LintWarning[] {
+  const warnings: LintWarning[] = [];
+  if (isMostlyCaps(subject)) {
+    warnings.push({ message: "Subject is written in capitals", weight: 25 });
+  }
+  const phrases = findSpamPhrases(subject);
+  if (phrases.length > 0) {
+    warnings.push({
+      message: `Subject uses spam trigger words: ${phrases.join(", ")}`,
+      weight: 20 * phrases.length,
+    });
+  }
+  const exclamations = (subject.match(/!/g) || []).length;
+  if (exclamations > 0) {
+    warnings.push({
+      message: "Exclamation marks in the subject look promotional",
+      weight: exclamations > 1 ? 15 : 5,
+    });
+  }
+  return warnings.sort(bySeverity);
+}
+
+/**
+ * Checks a message body
+ * @param {string} body - HTML or plain-text body, placeholders included
+ * @returns {LintWarning[]} Problems found, most serious first
+ */
+export function lintBody(body: string): LintWarning[] {
+  const warnings: LintWarning[] = [];
+  const text = htmlToPlainText(body || "");
+  const lines = text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  const phrases = findSpamPhrases(text);
+  if (phrases.length > 0) {
+    warnings.push({
+      message: `Uses spam trigger words: ${phrases.join(", ")}`,
+      weight: 15 * phrases.length,
+    });
+  }
+  const links = new Set(text.match(URL_PATTERN) || []).size;
+  if (links > MAX_LINKS) {
+    warnings.push({
+      message: `${links} links; keep it to ${MAX_LINKS} or fewer`,
+      weight: 15,
+    });
+  }
+  const exclamations = (text.match(/!/g) || []).length;
+  if (exclamations > MAX_EXCLAMATIONS) {
+    warnings.push({
+      message: `${exclamations} exclamation marks read as shouting`,
+      weight: 10,
+    });
+  }
+  if (lines.length > 0 && isMostlyCaps(text)) {
+    warnings.push({ message: "Body is written in capitals", weight: 20 });
+  }
+
+  const words = text.split(/\s+/).filter(Boolean).length;
+  if (words > 0 && words < MIN_WORDS) {
+    warnings.push({
+      message: `Only ${words} words; very short emails look automated`,
+      weight: 10,
+    });
+  }
+  if (lines.length > 0 && !GREETING_PATTERN.test(lines[0])) {
+    warnings.push({
+      message: "No greeting, e.g. “Hi {{firstName}},”",
+      weight: 5,
+    });
+  }
+  // The sign-off is usually within the last few lines, above the name
+  if (
+    lines.length > 0 &&
+    !lines.slice(-4).some((line) => SIGN_OFF_PATTERN.test(line))
+  ) {
+    warnings.push({
+      message: "No sign-off or signature, e.g. “Best regards”",
+      weight: 5,
+    });
+  }
+  return warnings.sort(bySeverity);
+}
+
+/**
+ * Scores a message's subject and body
+ * @param {string} subject - Subject line
+ * @param {string} body - HTML or plain-text body
+ * @returns {ContentLint} Warnings per field and the combined score
+ */
+export function lintContent(subject: string, body: string): ContentLint {
+  const subjectWarnings = lintSubject(subject);
+  const bodyWarnings = lintBody(body);
+  const score = [...subjectWarnings, ...bodyWarnings].reduce(
+    (total, warning) => total + warning.weight,
+    0,
+  );
+  return {
+    subject: subjectWarnings,
+    body: bodyWarnings,
+    score: Math.min(score, 100),
+  };
+}
@@ -1,91 +1,139 @@
 /**
- * Simple encryption utility for localStorage
- * NOTE: This offers only basic obfuscation against casual users
- * It is NOT secure against determined attackers
+ * Encryption utility for localStorage
+ * Data is encrypted with AES-GCM using a key derived by PBKDF2 from a
+ * passphrase the user chooses. The key only ever lives in memory.
+ * @module cryptoUtils
  */
 
+/** PBKDF2 rounds for new vaults; stored with the salt so it can be raised */
+export const PBKDF2_ITERATIONS = 600000;
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (base64: string) =>
+  Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+
 /**
- * Creates a consistent key from a passphrase
- * @param {string} passphrase - Secret phrase to derive key from
- * @returns {string} - Derived key
+ * Creates a random salt for key derivation
+ * @returns {string} Base64-encoded 16-byte salt
  */
-const createKey = (passphrase) => {
-  // Simple hash function to create a consistent key
-  let hash = 0;
-  for (let i = 0; i < passphrase.length; i++) {
-    const char = passphrase.charCodeAt(i);
-    hash = (hash << 5) - hash + char;
-    hash = hash & hash; // Convert to 32bit integer
-  }
-  return hash.toString(36);
-};
+export const generateSalt = () =>
+  toBase64(crypto.getRandomValues(new Uint8Array(16)));
 
-// App-specific passphrase - change this to your own secret
-const PASSPHRASE = "your-app-secret-phrase-change-this";
-const SECRET_KEY = createKey(PASSPHRASE);
+/**
+ * Derives an AES-GCM key from a passphrase
+ * @param {string} passphrase - Secret phrase chosen by the user
+ * @param {string} salt - Base64 salt from {@link generateSalt}
+ * @param {number} [iterations] - PBKDF2 rounds
+ * @returns {Promise<CryptoKey>} Non-extractable 256-bit key
+ */
+export const deriveKey = async (
+  passphrase: string,
+  salt: string,
+  iterations = PBKDF2_ITERATIONS,
+) => {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"],
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt: fromBase64(salt), iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+};
 
 /**
  * Encrypts data for localStorage
- * @param {any} data - Data to encrypt
- * @returns {string} - Encrypted string
+ * @param {CryptoKey} key - Key from {@link deriveKey}
+ * @param {unknown} data - Data to encrypt; non-strings are stored as JSON
+ * @returns {Promise<string>} JSON string holding the IV and ciphertext
  */
-export const encryptForStorage = (data) => {
-  try {
-    // Convert data to string if it's not already
-    const dataString = typeof data === "string" ? data : JSON.stringify(data);
+export const encryptForStorage = async (key: CryptoKey, data: unknown) => {
+  const dataString = typeof data === "string" ? data : JSON.stringify(data);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const encrypted = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(dataString),
+  );
+  return JSON.stringify({
+    iv: toBase64(iv),
+    data: toBase64(new Uint8Array(encrypted)),
+  });
+};
 
-    // Simple XOR encryption with the key
-    let encrypted = "";
-    for (let i = 0; i < dataString.length; i++) {
-      const charCode =
-        dataString.charCodeAt(i) ^ SECRET_KEY.charCodeAt(i % SECRET_KEY.length);
-      encrypted += String.fromCharCode(charCode);
-    }
+/**
+ * Decrypts data from localStorage
+ * @param {CryptoKey} key - Key the data was encrypted with
+ * @param {string | null} encryptedData - String from {@link encryptForStorage}
+ * @param {boolean} parseJson - Whether to parse the result as JSON
+ * @returns {Promise<any>} Decrypted data, or null when the key is wrong or the
+ * data is not in this format
+ */
+export const decryptFromStorage = async (
+  key: CryptoKey,
+  encryptedData: string | null,
+  parseJson = true,
+) => {
+  if (!encryptedData) return null;
 
-    // Convert to base64 for safe storage
-    return btoa(encrypted);
-  } catch (error) {
-    console.error("Encryption failed:", error);
+  try {
+    const { iv, data } = JSON.parse(encryptedData);
+    const decrypted = new TextDecoder().decode(
+      await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: fromBase64(iv) },
+        key,
+        fromBase64(data),
+      ),
+    );
+    return parseJson ? JSON.parse(decrypted) : decrypted;
+  } catch {
     return null;
   }
 };
 
+// Key of the XOR obfuscation used before encryption, kept to read old data
+const LEGACY_SECRET_KEY = (() => {
+  const passphrase = "your-app-secret-phrase-change-this";
+  let hash = 0;
+  for (let i = 0; i < passphrase.length; i++) {
+    hash = (hash << 5) - hash + passphrase.charCodeAt(i);
+    hash = hash & hash; // Convert to 32bit integer
+  }
+  return hash.toString(36);
+})();
+
 /**
- * Decrypts data from localStorage
- * @param {string} encryptedData - Encrypted string from localStorage
- * @param {boolean} parseJson - Whether to parse the result as JSON
- * @returns {any} - Decrypted data
+ * Reads data written by the old XOR obfuscation so it can be migrated
+ * @param {string | null} encryptedData - Base64 string from localStorage
+ * @returns {any} Decoded JSON, or null when the data is not in that format
  */
-export const decryptFromStorage = (encryptedData, parseJson = true) => {
+export const decryptLegacyStorage = (encryptedData: string | null) => {
   if (!encryptedData) return null;
 
   try {
-    // Decode from base64
     const encrypted = atob(encryptedData);
-
-    // XOR decrypt with the same key
     let decrypted = "";
     for (let i = 0; i < encrypted.length; i++) {
-      const charCode =
-        encrypted.charCodeAt(i) ^ SECRET_KEY.charCodeAt(i % SECRET_KEY.length);
-      decrypted += String.fromCharCode(charCode);
+      decrypted += String.fromCharCode(
+        encrypted.charCodeAt(i) ^
+          LEGACY_SECRET_KEY.charCodeAt(i % LEGACY_SECRET_KEY.length),
+      );
     }
-
-    // Parse JSON if requested
-    return parseJson ? JSON.parse(decrypted) : decrypted;
-  } catch (error) {
-    console.error("Decryption failed:", error);
+    return JSON.parse(decrypted);
+  } catch {
     return null;
   }
 };
-
-// Usage examples:
-//
-// // Store data in localStorage
-// const userData = { name: "User", level: 5 };
-// localStorage.setItem('userData', encryptForStorage(userData));
-//
-// // Retrieve data from localStorage
-// const encryptedData = localStorage.getItem('userData');
-// const decryptedData = decryptFromStorage(encryptedData);
-// console.log(decryptedData); // { name: "User", level: 5 }
@@ -1,6 +1,8 @@
 /**
  * File export utility for downloading data as CSV
  * @module csvExport
+ *
+ * `parseCSV` reads back what `createCSV` writes, so exports can be re-imported.
  */
 
 /**
@@ -8,7 +10,7 @@
  * @param {Blob} blob - File content as a Blob
  * @param {string} filename - Name of the file to download
  */
-function downloadFile(blob, filename) {
+function downloadFile(blob: Blob, filename: string) {
   const url = window.URL.createObjectURL(blob);
   const link = document.createElement("a");
   link.href = url;
@@ -17,7 +19,7 @@ function downloadFile(blob, filename) {
   document.body.appendChild(link);
   link.click();
 
-  link.parentNode.removeChild(link);
+  link.parentNode?.removeChild(link);
   window.URL.revokeObjectURL(url);
 }
 
@@ -27,11 +29,14 @@ function downloadFile(blob, filename) {
  * @param {Object|null} mapping - Key-to-header mapping
  * @returns {Array<Object>} Formatted data
  */
-function formatData(data, mapping) {
+function formatData(
+  data: Record<string, unknown>[],
+  mapping: Record<string, string> | null,
+) {
   if (!mapping) return data;
 
   return data.map((item) => {
-    const result = {};
+    const result: Record<string, unknown> = {};
     for (const [key, header] of Object.entries(mapping)) {
       if (key in item) {
         result[header] = item[key];
@@ -41,32 +46,101 @@ function formatData(data, mapping) {
   });
 }
 
+/**
+ * Quotes a cell when it contains the delimiter, a quote or a line break
+ * @param {any} cell - Cell value
+ * @param {string} delimiter - CSV delimiter
+ * @returns {any} Escaped cell
+ */
+function escapeCell(cell: unknown, delimiter: string) {
+  return typeof cell === "string" &&
+    (cell.includes(delimiter) || /["\r\n]/.test(cell))
+    ? `"${cell.replace(/"/g, '""')}"`
+    : cell;
+}
+
 /**
  * Creates a CSV string from structured data
  * @param {Array<Object>} data - Data to convert
  * @param {string} [delimiter=","] - CSV delimiter
  * @returns {string} CSV content
  */
-function createCSV(data, delimiter = ",") {
+function createCSV(data: Record<string, unknown>[], delimiter = ",") {
   if (!data.length) return "";
 
   const headers = Object.keys(data[0]);
-  let csvContent = headers.join(delimiter) + "\n";
+  let csvContent =
+    headers.map((header) => escapeCell(header, delimiter)).join(delimiter) +
+    "\n";
 
   data.forEach((row) => {
-    const values = headers.map((header) => {
-      const cell = row[header] ?? "";
-      return typeof cell === "string" &&
-        (cell.includes(delimiter) || cell.includes('"') || cell.includes("\n"))
-        ? `"${cell.replace(/"/g, '""')}"`
-        : cell;
-    });
+    const values = headers.map((header) =>
+      escapeCell(row[header] ?? "", delimiter),
+    );
     csvContent += values.join(delimiter) + "\n";
   });
 
   return csvContent;
 }
 
+/**
+ * Parses CSV text into rows keyed by the header line
+ * @param {string} text - CSV content
+ * @param {string} [delimiter=","] - CSV delimiter
+ * @returns {{ headers: string[], rows: Array<Object> }} Parsed content
+ */
+export function parseCSV(text: string, delimiter = ",") {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  const content = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      record.push(cell);
+      records.push(record);
+      record = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || record.length) {
+    record.push(cell);
+    records.push(record);
+  }
+
+  const [headerRow = [], ...dataRows] = records.filter((row) =>
+    row.some((value) => value.trim()),
+  );
+  const headers = headerRow.map((header) => header.trim());
+  const rows = dataRows.map((row) =>
+    Object.fromEntries(
+      headers.map((header, index) => [header, row[index] ?? ""]),
+    ),
+  );
+
+  return { headers, rows };
+}
+
 /**
  * Download data as CSV file
  * @param {Object} options - Configuration options
@@ -84,6 +158,13 @@ function downloadCSV({
   delimiter = ",",
   onSuccess = () => {},
   onError = (err) => console.error(err),
+}: {
+  data?: Record<string, unknown>[];
+  mapping?: Record<string, string> | null;
+  fileName?: string;
+  delimiter?: string;
+  onSuccess?: (fileName: string) => void;
+  onError?: (error: Error) => void;
 }) {
   if (!data.length) {
     onError(new Error("No data available"));
@@ -98,7 +179,7 @@ function downloadCSV({
     downloadFile(blob, `${fileName}.csv`);
     onSuccess(`${fileName}.csv`);
   } catch (error) {
-    onError(error);
+    onError(error as Error);
   }
 }
 
@@ -0,0 +1,87 @@
+import { fixQuillHtml } from "@/utils/constants/fixQuillHtml";
+
+/**
+ * Helpers for the HTML and plain-text parts of an email body
+ * @module emailHtml
+ */
+
+const BLOCK_TAGS = ["P", "DIV", "H1", "H2", "H3", "H4", "H5", "H6", "UL", "OL"];
+
+/**
+ * Escapes text for safe insertion into HTML
+ * @param {string} text - Raw text
+ * @returns {string} Escaped text
+ */
+export const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+/**
+ * Checks whether a body was written in the rich text editor
+ * @param {string} body - Email body
+ * @returns {boolean} True for HTML content
+ */
+export const isHtml = (body: string) => /<[a-z][\s\S]*>/i.test(body);
+
+/**
+ * Wraps a plain-text body in paragraphs so the editor keeps its line breaks
+ * @param {string} body - Plain text or HTML
+ * @returns {string} HTML body
+ */
+export const toEmailHtml = (body: string) => {
+  if (!body || isHtml(body)) return body;
+
+  return body
+    .split("\n")
+    .map((line) => `<p>${line.trim() ? escapeHtml(line) : "<br>"}</p>`)
+    .join("");
+};
+
+/**
+ * Cleans up editor output before it is sent as the HTML part
+ * @param {string} html - Editor HTML
+ * @returns {string} HTML with Quill's bullet lists as real `<ul>`s
+ */
+export const toSendableHtml = (html: string) => fixQuillHtml(html);
+
+/**
+ * Generates the plain-text alternative of an HTML body
+ * @param {string} html - HTML body
+ * @returns {string} Readable plain text with links written out
+ */
+export const htmlToPlainText = (html: string) => {
+  if (!isHtml(html)) return html;
+
+  const doc = new DOMParser().parseFromString(html, "text/html");
+
+  const walk = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE) return node.textContent || "";
+    if (!(node instanceof HTMLElement)) return "";
+
+    const children = Array.from(node.childNodes).map(walk).join("");
+
+    switch (node.tagName) {
+      case "BR":
+        return "\n";
+      case "IMG":
+        return node.getAttribute("alt") ? `[${node.getAttribute("alt")}]` : "";
+      case "A": {
+        const href = node.getAttribute("href");
+        return href && href !== children ? `${children} (${href})` : children;
+      }
+      case "LI":
+        return `- ${children}\n`;
+      default:
+        return BLOCK_TAGS.includes(node.tagName) ? `${children}\n` : children;
+    }
+  };
+
+  return walk(doc.body)
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+};
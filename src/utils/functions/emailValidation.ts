@@ -0,0 +1,178 @@
+/**
+ * Email address validation helpers
+ * @module emailValidation
+ */
+
+/**
+ * Checks that a string looks like a single email address
+ * @param {string} email - Address to check
+ * @returns {boolean} True when the address is well-formed
+ */
+export const isValidEmail = (email: string) => {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim());
+};
+
+export interface RejectedAddress {
+  token: string;
+  reason: string;
+}
+
+export interface AddressCheck {
+  /** Well-formed, new, unsuppressed addresses in input order */
+  accepted: string[];
+  rejected: RejectedAddress[];
+}
+
+// Providers people mistype most often
+const COMMON_DOMAINS = [
+  "gmail.com",
+  "googlemail.com",
+  "yahoo.com",
+  "yahoo.co.in",
+  "hotmail.com",
+  "outlook.com",
+  "live.com",
+  "icloud.com",
+  "aol.com",
+  "protonmail.com",
+  "rediffmail.com",
+];
+
+// Real providers whose name is a letter or two away from a common one
+const KNOWN_PROVIDERS = ["mail", "email", "ymail", "gmx"];
+
+// Shorter names such as aol or live are a letter away from too many real domains
+const MIN_FUZZY_LENGTH = 5;
+
+// Shared inboxes that rarely reach a person or cannot receive mail at all
+const ROLE_PREFIXES = [
+  "noreply",
+  "no-reply",
+  "donotreply",
+  "do-not-reply",
+  "info",
+  "admin",
+  "support",
+  "sales",
+  "contact",
+  "office",
+  "postmaster",
+  "webmaster",
+  "abuse",
+];
+
+// Counts a swap of neighbouring letters as one edit, the most common typo
+const editDistance = (a: string, b: string) => {
+  const distances = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) =>
+      i === 0 ? j : j === 0 ? i : 0,
+    ),
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      distances[i][j] = Math.min(
+        distances[i - 1][j] + 1,
+        distances[i][j - 1] + 1,
+        distances[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distances[i][j] = Math.min(
+          distances[i][j],
+          distances[i - 2][j - 2] + 1,
+        );
+      }
+    }
+  }
+  return distances[a.length][b.length];
+};
+
+// Splits a domain into the provider name and the rest, e.g. yahoo and co.in
+const splitDomain = (domain: string) => {
+  const dot = domain.indexOf(".");
+  return dot === -1
+    ? [domain, ""]
+    : [domain.slice(0, dot), domain.slice(dot + 1)];
+};
+
+/**
+ * Splits pasted text into candidate addresses
+ * @param {string} text - Addresses separated by commas, semicolons or whitespace
+ * @returns {string[]} Non-empty tokens
+ */
+export const splitAddresses = (text: string) =>
+  text
+    .split(/[,;\s]+/)
+    .map((token) => token.trim())
+    .filter(Boolean);
+
+/**
+ * Suggests a fix for a likely typo in a common provider's domain
+ * @param {string} email - Well-formed address
+ * @returns {string | null} Corrected address, e.g. `jane@gmail.com` for
+ * `jane@gmial.com`, or null when the domain looks fine
+ *
+ * Only the provider name is compared, so regional domains such as `yahoo.fr`
+ * pass and a fix keeps the country part, e.g. `hotmial.de` to `hotmail.de`.
+ */
+export const suggestDomainFix = (email: string) => {
+  const [local, domain = ""] = email.toLowerCase().split("@");
+  const [provider, suffix] = splitDomain(domain);
+  const isKnown = (name: string) =>
+    KNOWN_PROVIDERS.includes(name) ||
+    COMMON_DOMAINS.some((common) => splitDomain(common)[0] === name);
+  if (isKnown(provider)) return null;
+
+  // Two edits are only trusted when the rest of the domain already matches
+  const match = COMMON_DOMAINS.map(splitDomain).find(([name, rest]) => {
+    if (name.length < MIN_FUZZY_LENGTH) return false;
+    const distance = editDistance(provider, name);
+    return distance === 1 || (distance === 2 && suffix === rest);
+  });
+  return match ? `${local}@${match[0]}.${suffix || match[1]}` : null;
+};
+
+/**
+ * Checks whether an address belongs to a shared inbox such as `info@`
+ * @param {string} email - Address to check
+ * @returns {boolean} True for role addresses
+ */
+export const isRoleAddress = (email: string) =>
+  ROLE_PREFIXES.includes(email.toLowerCase().split("@")[0]);
+
+/**
+ * Runs tokens through the validation pass used for every address list
+ * @param {string[]} tokens - Candidate addresses
+ * @param {Object} [options]
+ * @param {string[]} [options.existing] - Addresses already in use; compared
+ * case-insensitively
+ * @param {string[]} [options.suppressed] - Addresses that must never be mailed
+ * @returns {AddressCheck} Accepted addresses and every rejected token with why
+ */
+export const checkAddresses = (
+  tokens: string[],
+  {
+    existing = [],
+    suppressed = [],
+  }: { existing?: string[]; suppressed?: string[] } = {},
+): AddressCheck => {
+  const seen = new Set(existing.map((address) => address.toLowerCase()));
+  const blocked = new Set(suppressed.map((address) => address.toLowerCase()));
+  const accepted: string[] = [];
+  const rejected: RejectedAddress[] = [];
+
+  tokens.forEach((token) => {
+    const key = token.toLowerCase();
+    if (!isValidEmail(token)) {
+      rejected.push({ token, reason: "Not a valid address" });
+    } else if (blocked.has(key)) {
+      rejected.push({ token, reason: "On the suppression list" });
+    } else if (seen.has(key)) {
+      rejected.push({ token, reason: "Already added" });
+    } else {
+      seen.add(key);
+      accepted.push(token);
+    }
+  });
+
+  return { accepted, rejected };
+};
@@ -0,0 +1,40 @@
+/**
+ * Helpers for keeping files in storage as base64 Data URLs
+ * @module fileDataUrl
+ */
+
+export interface StoredFile {
+  name: string;
+  type: string;
+  size: number;
+  dataUrl: string;
+}
+
+/**
+ * Reads a File into a storable object
+ * @param {File} file - File to read
+ * @returns {Promise<StoredFile>} File metadata with its Data URL
+ */
+export const fileToStoredFile = (file: File): Promise<StoredFile> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) =>
+      resolve({
+        name: file.name,
+        type: file.type,
+        size: file.size,
+        dataUrl: e.target?.result as string,
+      });
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+/**
+ * Converts a stored Data URL back into a File
+ * @param {StoredFile} storedFile - File read by `fileToStoredFile`
+ * @returns {Promise<File>} File ready for a multipart upload
+ */
+export const storedFileToFile = async ({ dataUrl, name, type }: StoredFile) => {
+  const blob = await fetch(dataUrl).then((res) => res.blob());
+  return new File([blob], name, { type: type || blob.type });
+};
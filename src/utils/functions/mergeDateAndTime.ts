@@ -1,11 +1,17 @@
 import { format, parse } from "date-fns";
+import { globalDateInputFormat } from "@/utils/constants";
 
-export const mergeDateAndTime = (date, time) => {
+export const mergeDateAndTime = (
+  date: Date | string,
+  time: string,
+  outputFormat = "dd-MM-yyyy hh:mm a",
+) => {
   if (!date || !time) return null;
 
   try {
-    // Parse the date and time
-    const parsedDate = parse(date, "yyyy-MM-dd", new Date());
+    // Parse the date and time; DatePickerFormField hands over a Date
+    const parsedDate =
+      date instanceof Date ? date : parse(date, "yyyy-MM-dd", new Date());
     const parsedTime = parse(time, "HH:mm", new Date());
 
     // Combine date and time
@@ -18,9 +24,15 @@ export const mergeDateAndTime = (date, time) => {
     );
 
     // Format the combined date and time as specified
-    return format(combinedDateTime, "dd-MM-yyyy hh:mm a");
+    return format(combinedDateTime, outputFormat);
   } catch (error) {
     console.error("Error merging date and time:", error);
     return null;
   }
 };
+
+// The moment a picked date and "HH:mm" time refer to, in local time
+export const toDateTime = (date: Date | string, time: string) => {
+  const merged = mergeDateAndTime(date, time, globalDateInputFormat);
+  return merged ? new Date(merged) : null;
+};
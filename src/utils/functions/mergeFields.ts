@@ -0,0 +1,137 @@
+/**
+ * Mail-merge helpers for personalising subject and body per recipient
+ * @module mergeFields
+ *
+ * Placeholders look like `{{firstName}}` or `{{firstName|there}}`, where the
+ * part after the pipe is used when the recipient has no value for the field.
+ */
+
+export type MergeData = Record<string, string>;
+
+export interface MergeField {
+  name: string;
+  /** True when at least one occurrence has no fallback */
+  required: boolean;
+}
+
+/** Fields resolved from the recipient itself rather than a data row */
+export const BUILT_IN_FIELDS = ["email"];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][\w]*)\s*(?:\|([^}]*))?\}\}/g;
+
+/**
+ * Collects the unique placeholders used across the given templates
+ * @param {...string} templates - Subject, body, etc.
+ * @returns {MergeField[]} Fields in order of first appearance
+ */
+export function extractMergeFields(...templates: string[]): MergeField[] {
+  const fields = new Map<string, MergeField>();
+
+  templates.forEach((template) => {
+    for (const match of (template || "").matchAll(PLACEHOLDER_PATTERN)) {
+      const [, name, fallback] = match;
+      const required = fallback === undefined;
+      const existing = fields.get(name);
+      if (existing) {
+        existing.required = existing.required || required;
+      } else {
+        fields.set(name, { name, required });
+      }
+    }
+  });
+
+  return Array.from(fields.values());
+}
+
+/**
+ * Builds the data a recipient's placeholders are resolved against
+ * @param {string} email - Recipient address
+ * @param {MergeData} [row] - Values entered or imported for the recipient
+ * @returns {MergeData} Row merged with the built-in fields
+ */
+export function getRecipientMergeData(email: string, row: MergeData = {}) {
+  return { ...row, email };
+}
+
+/**
+ * Moves a recipient's values to a corrected address
+ * @param {Record<string, MergeData>} data - Values keyed by recipient
+ * @param {string} from - Address being replaced
+ * @param {string} to - Address replacing it
+ * @returns {Record<string, MergeData>} Values keyed by the new address
+ */
+export function moveMergeData(
+  data: Record<string, MergeData>,
+  from: string,
+  to: string,
+) {
+  if (!(from in data)) return data;
+  const { [from]: row, ...rest } = data;
+  return { ...rest, [to]: row };
+}
+
+/**
+ * Lists required fields the recipient has no value for
+ * @param {MergeField[]} fields - Fields used by the templates
+ * @param {MergeData} data - Recipient merge data
+ * @returns {string[]} Names of missing fields
+ */
+export function getMissingFields(fields: MergeField[], data: MergeData) {
+  return fields
+    .filter((field) => field.required && !data[field.name]?.trim())
+    .map((field) => field.name);
+}
+
+/**
+ * Replaces placeholders with the recipient's values
+ * @param {string} template - Text containing placeholders
+ * @param {MergeData} data - Recipient merge data
+ * @param {Function} [escape] - Applied to recipient values, e.g. for HTML;
+ * fallbacks are already part of the template and are inserted verbatim
+ * @returns {string} Rendered text; unresolved placeholders are left as-is
+ */
+export function renderTemplate(
+  template: string,
+  data: MergeData,
+  escape: (value: string) => string = (value) => value,
+) {
+  return (template || "").replace(
+    PLACEHOLDER_PATTERN,
+    (placeholder, name: string, fallback?: string) => {
+      const value = data[name]?.trim();
+      if (value) return escape(value);
+      if (fallback !== undefined) return fallback.trim();
+      return placeholder;
+    },
+  );
+}
+
+export interface TextSegment {
+  text: string;
+  /** True for a placeholder left unresolved */
+  placeholder: boolean;
+}
+
+/**
+ * Splits rendered text around the placeholders still left in it
+ * @param {string} text - Output of `renderTemplate`
+ * @returns {TextSegment[]} Plain and placeholder segments, in order
+ */
+export function splitUnresolved(text: string): TextSegment[] {
+  const segments: TextSegment[] = [];
+  let last = 0;
+  for (const match of (text || "").matchAll(PLACEHOLDER_PATTERN)) {
+    if (match.index > last) {
+      segments.push({
+        text: text.slice(last, match.index),
+        placeholder: false,
+      });
+    }
+    segments.push({ text: match[0], placeholder: true });
+    last = match.index + match[0].length;
+  }
+  if (last < (text || "").length) {
+    segments.push({ text: text.slice(last), placeholder: false });
+  }
+  return segments;
+}
@@ -0,0 +1,68 @@
+import { parseCSV } from "./downloadCSV";
+
+/**
+ * Spreadsheet import utility for CSV and Excel files
+ * @module spreadsheetImport
+ *
+ * The workbook parser is loaded only when an Excel file is picked, so it
+ * stays out of the main bundle.
+ */
+
+export interface SpreadsheetContent {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+/**
+ * Reads the first sheet of a CSV/XLSX file
+ * @param {File} file - Uploaded file
+ * @returns {Promise<SpreadsheetContent>} Header names and rows keyed by them
+ */
+export async function readSpreadsheet(file: File): Promise<SpreadsheetContent> {
+  if (/\.csv$/i.test(file.name) || file.type === "text/csv") {
+    return parseCSV(await file.text());
+  }
+
+  const { default: ExcelJS } = await import("exceljs");
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return { headers: [], rows: [] };
+
+  // Cell text is the value as Excel displays it, e.g. formatted dates
+  const records: string[][] = [];
+  sheet.eachRow((row) => {
+    const values: string[] = [];
+    row.eachCell({ includeEmpty: true }, (cell, column) => {
+      values[column - 1] = cell.text;
+    });
+    records.push(Array.from(values, (value) => value ?? ""));
+  });
+
+  const [headerRow = [], ...dataRows] = records.filter((row) =>
+    row.some((value) => value.trim()),
+  );
+  const headers = headerRow.map((header) => header.trim());
+  const rows = dataRows.map((row) =>
+    Object.fromEntries(
+      headers.map((header, index) => [header, row[index] ?? ""]),
+    ),
+  );
+
+  return { headers, rows };
+}
+
+/**
+ * Turns a column header into a merge field name ("First Name" -> "firstName")
+ * @param {string} header - Column header
+ * @returns {string} camelCase field name
+ */
+export function toMergeFieldName(header: string) {
+  return header
+    .trim()
+    .replace(/[^A-Za-z0-9]+(.)?/g, (_, char?: string) =>
+      char ? char.toUpperCase() : "",
+    )
+    .replace(/^[^A-Za-z_]+/, "")
+    .replace(/^./, (char) => char.toLowerCase());
+}
@@ -0,0 +1,88 @@
+import {
+  getRecipientMergeData,
+  renderTemplate,
+  type MergeData,
+} from "@/utils/functions/mergeFields";
+import {
+  escapeHtml,
+  htmlToPlainText,
+  toSendableHtml,
+} from "@/utils/functions/emailHtml";
+
+/**
+ * Renders one message per recipient from the compose content
+ * @module renderMessages
+ */
+
+export interface MessageContent {
+  recipients: string[];
+  recipientData: Record<string, MergeData>;
+  subject: string;
+  /** HTML body with merge placeholders */
+  body: string;
+}
+
+/** A message waiting in the send queue; its body is rendered at send time */
+export interface QueuedMessage {
+  recipient: string;
+  subject: string;
+  /** The recipient's merge data, including the built-in fields */
+  mergeData: MergeData;
+}
+
+export interface RenderedMessage {
+  recipient: string;
+  subject: string;
+  /** Plain-text alternative */
+  body: string;
+  html: string;
+}
+
+/**
+ * Resolves the subject placeholders for every recipient, leaving the body to
+ * `renderBody` so the queue keeps a single copy of it
+ * @param {Omit<MessageContent, "body">} content - Recipients, their merge
+ * data and subject
+ * @returns {QueuedMessage[]} Messages in recipient order
+ */
+export function queueMessages({
+  recipients,
+  recipientData,
+  subject,
+}: Omit<MessageContent, "body">): QueuedMessage[] {
+  return recipients.map((recipient) => {
+    const mergeData = getRecipientMergeData(
+      recipient,
+      recipientData[recipient],
+    );
+    return {
+      recipient,
+      subject: renderTemplate(subject, mergeData),
+      mergeData,
+    };
+  });
+}
+
+/**
+ * Resolves the body placeholders for one recipient
+ * @param {string} body - HTML body with merge placeholders
+ * @param {MergeData} mergeData - The recipient's merge data
+ * @returns {Pick<RenderedMessage, "body" | "html">} The HTML part and its
+ * plain-text alternative
+ */
+export function renderBody(body: string, mergeData: MergeData) {
+  const html = toSendableHtml(renderTemplate(body, mergeData, escapeHtml));
+  return { body: htmlToPlainText(html), html };
+}
+
+/**
+ * Resolves placeholders for every recipient
+ * @param {MessageContent} content - Recipients, their merge data, subject and body
+ * @returns {RenderedMessage[]} Messages ready to send, in recipient order
+ */
+export function renderMessages(content: MessageContent): RenderedMessage[] {
+  return queueMessages(content).map(({ mergeData, ...message }) => ({
+    ...message,
+    ...renderBody(content.body, mergeData),
+  }));
+}
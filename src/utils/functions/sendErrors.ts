@@ -0,0 +1,143 @@
+/**
+ * Classifies failed `SendEmailAPI` calls so each kind of failure can be
+ * explained and retried appropriately
+ * @module sendErrors
+ */
+
+export type SendErrorKind =
+  | "auth"
+  | "quota"
+  | "recipient"
+  | "attachment"
+  | "network"
+  | "unknown";
+
+export interface SendError {
+  kind: SendErrorKind;
+  /** Explanation shown next to the recipient */
+  message: string;
+  /** SMTP reply code, e.g. 550, when the server passed one on */
+  smtpCode?: number;
+}
+
+interface SendErrorResponse {
+  code?: string;
+  message?: string;
+  responseCode?: number;
+  smtpCode?: number;
+}
+
+// Codes from the server, the SMTP client it wraps, or Gmail's replies
+const AUTH_CODES = [
+  "AUTH_FAILED",
+  "TWO_FACTOR_REQUIRED",
+  "APP_PASSWORD_REVOKED",
+  "EAUTH",
+];
+const NETWORK_CODES = [
+  "ERR_NETWORK",
+  "ECONNABORTED",
+  "ECONNECTION",
+  "ESOCKET",
+  "ETIMEDOUT",
+  "EDNS",
+];
+const AUTH_SMTP_CODES = [530, 534, 535];
+const SIZE_SMTP_CODES = [552];
+const RECIPIENT_SMTP_CODES = [450, 550, 551, 553, 554];
+
+const QUOTA_PATTERN = /quota|limit exceeded|rate limit|too many/i;
+const SIZE_PATTERN = /too large|size exceeds|message size|payload/i;
+
+/** Messages for every kind but recipient, whose message names the code */
+export const SEND_ERROR_MESSAGES: Record<
+  Exclude<SendErrorKind, "recipient">,
+  string
+> = {
+  auth: "Gmail rejected the app password. Update it on the Accounts page, then retry.",
+  quota:
+    "Gmail's sending limit for this account was reached. Retry in a few hours.",
+  attachment:
+    "The message is too large for Gmail's 25 MB limit. Retry without attachments or pick smaller files.",
+  network: "Could not reach the mail server. Check your connection and retry.",
+  unknown: "Failed to send email",
+};
+
+const readSmtpCode = (data: SendErrorResponse | undefined) => {
+  const code = data?.smtpCode ?? data?.responseCode;
+  if (code) return code;
+  // Gmail's reply text starts with the code, e.g. "550 5.1.1 The email..."
+  const match = data?.message?.match(/\b([45]\d\d)[ -]\d\.\d+\.\d+/);
+  return match ? Number(match[1]) : undefined;
+};
+
+/**
+ * Turns whatever a send rejected with into a typed error
+ * @param {unknown} error - Axios error, or an Error thrown before the request
+ * @returns {SendError} Kind, message and SMTP code
+ */
+export function parseSendError(error: unknown): SendError {
+  const { code, message, request, response } = (error ?? {}) as {
+    code?: string;
+    message?: string;
+    request?: unknown;
+    response?: { status: number; data?: SendErrorResponse };
+  };
+
+  // Thrown before any request went out, e.g. the vault was locked
+  if (!request && !response) {
+    return { kind: "unknown", message: message || SEND_ERROR_MESSAGES.unknown };
+  }
+  if (!response || NETWORK_CODES.includes(code ?? "")) {
+    return { kind: "network", message: SEND_ERROR_MESSAGES.network };
+  }
+
+  const data = response.data;
+  const smtpCode = readSmtpCode(data);
+  const serverCode = data?.code ?? "";
+  const serverMessage = data?.message ?? "";
+
+  if (NETWORK_CODES.includes(serverCode)) {
+    return { kind: "network", message: SEND_ERROR_MESSAGES.network, smtpCode };
+  }
+  if (
+    AUTH_CODES.includes(serverCode) ||
+    (smtpCode && AUTH_SMTP_CODES.includes(smtpCode))
+  ) {
+    return { kind: "auth", message: SEND_ERROR_MESSAGES.auth, smtpCode };
+  }
+  // Gmail reports its daily cap as a 550 too, so check the text first
+  if (response.status === 429 || QUOTA_PATTERN.test(serverMessage)) {
+    return { kind: "quota", message: SEND_ERROR_MESSAGES.quota, smtpCode };
+  }
+  if (
+    response.status === 413 ||
+    (smtpCode && SIZE_SMTP_CODES.includes(smtpCode)) ||
+    SIZE_PATTERN.test(serverMessage)
+  ) {
+    return {
+      kind: "attachment",
+      message: SEND_ERROR_MESSAGES.attachment,
+      smtpCode,
+    };
+  }
+  if (
+    serverCode === "EENVELOPE" ||
+    (smtpCode && RECIPIENT_SMTP_CODES.includes(smtpCode))
+  ) {
+    const reply =
+      smtpCode && !serverMessage.includes(String(smtpCode))
+        ? `SMTP ${smtpCode} ${serverMessage}`.trim()
+        : serverMessage || "no reason given";
+    return {
+      kind: "recipient",
+      message: `The recipient's server rejected this address: ${reply}`,
+      smtpCode,
+    };
+  }
+  return {
+    kind: "unknown",
+    message: serverMessage || message || SEND_ERROR_MESSAGES.unknown,
+    smtpCode,
+  };
+}
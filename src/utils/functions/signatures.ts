@@ -0,0 +1,85 @@
+import { UploadImageAPI } from "@/services/api";
+import useSignatureStore, { type Signature } from "@/store/useSignatureStore";
+import { escapeHtml } from "@/utils/functions/emailHtml";
+
+/**
+ * Helpers for adding account signatures to outgoing messages
+ * @module signatures
+ */
+
+/** Avatars are scaled down to this many pixels square before they are hosted */
+const AVATAR_SIZE = 96;
+
+/**
+ * Renders a signature, with its avatar beside the text
+ * @param {Signature} signature - Saved signature
+ * @returns {string} HTML to place under the body
+ */
+export const toSignatureHtml = ({ html, avatarUrl }: Signature) => {
+  // Avatars older versions inlined as data URLs are blocked by webmail
+  if (!avatarUrl || avatarUrl.startsWith("data:")) return `<div>${html}</div>`;
+
+  const avatar = `<img src="${escapeHtml(avatarUrl)}" alt="" width="64" height="64" style="border-radius:50%;display:block">`;
+  return `<table cellpadding="0" cellspacing="0"><tr><td style="padding-right:12px;vertical-align:top">${avatar}</td><td style="vertical-align:top">${html}</td></tr></table>`;
+};
+
+/**
+ * Adds a signature under an HTML body, so the plain-text part rendered from
+ * it carries the signature too
+ * @param {string} body - HTML body with merge placeholders
+ * @param {Signature} [signature] - Signature to add, if any
+ * @returns {string} Body followed by the signature
+ */
+export const appendSignature = (body: string, signature?: Signature) =>
+  signature ? `${body}<p><br></p>${toSignatureHtml(signature)}` : body;
+
+/**
+ * Shrinks a cropped avatar and hosts it, since webmail blocks images inlined
+ * as data URLs. Shaped like an upload response so it can be passed to
+ * `ImageCrop` as its `apiFn`.
+ * @param {File} file - Cropped square image
+ * @returns {Promise<{ data: { url: string } }>} The hosted avatar's URL
+ */
+export const uploadAvatar = async (file: File) => {
+  const bitmap = await createImageBitmap(file);
+  const canvas = document.createElement("canvas");
+  canvas.width = AVATAR_SIZE;
+  canvas.height = AVATAR_SIZE;
+  canvas.getContext("2d")?.drawImage(bitmap, 0, 0, AVATAR_SIZE, AVATAR_SIZE);
+  bitmap.close();
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, "image/jpeg", 0.85),
+  );
+  if (!blob) throw new Error("The avatar could not be read");
+  const url = await UploadImageAPI(
+    new File([blob], "avatar.jpg", { type: "image/jpeg" }),
+  );
+  return { data: { url } };
+};
+
+/**
+ * Hosts the avatars older versions saved as data URLs, which are left out of
+ * sent signatures. One that fails to upload is kept and retried next time.
+ * @returns {Promise<void>} Settles once every avatar has been tried
+ */
+export const hostInlinedAvatars = async () => {
+  const inlined = useSignatureStore
+    .getState()
+    .signatures.filter(({ avatarUrl }) => avatarUrl.startsWith("data:"));
+  for (const { email, avatarUrl } of inlined) {
+    try {
+      const blob = await (await fetch(avatarUrl)).blob();
+      const { data } = await uploadAvatar(
+        new File([blob], "avatar", { type: blob.type }),
+      );
+      // Keep any edit made while the upload ran
+      const { getSignature, saveSignature } = useSignatureStore.getState();
+      const current = getSignature(email);
+      if (current?.avatarUrl === avatarUrl) {
+        saveSignature(email, { html: current.html, avatarUrl: data.url });
+      }
+    } catch (error) {
+      console.error("Failed to host a saved avatar:", error);
+    }
+  }
+};
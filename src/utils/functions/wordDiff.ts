@@ -0,0 +1,63 @@
+/**
+ * Word-level diff between two versions of a text
+ * @module wordDiff
+ */
+
+export type DiffKind = "same" | "added" | "removed";
+
+export interface DiffPart {
+  kind: DiffKind;
+  text: string;
+}
+
+// Keeps the whitespace as its own tokens so joining them rebuilds the text
+const tokenize = (text: string) => text.split(/(\s+)/).filter(Boolean);
+
+// Merges neighbouring parts of the same kind
+const pushPart = (parts: DiffPart[], kind: DiffKind, text: string) => {
+  const last = parts[parts.length - 1];
+  if (last?.kind === kind) last.text += text;
+  else parts.push({ kind, text });
+};
+
+/**
+ * Compares two texts word by word using their longest common subsequence
+ * @param {string} before - Older text
+ * @param {string} after - Newer text
+ * @returns {DiffPart[]} Unchanged, removed and added runs in reading order
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // lengths[i][j]: common tokens between a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushPart(parts, "same", a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      pushPart(parts, "removed", a[i++]);
+    } else {
+      pushPart(parts, "added", b[j++]);
+    }
+  }
+  while (i < a.length) pushPart(parts, "removed", a[i++]);
+  while (j < b.length) pushPart(parts, "added", b[j++]);
+  return parts;
+}